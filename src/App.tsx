@@ -1,71 +1,76 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState, type SetStateAction } from "react";
 import "./App.css";
+import { toPlainText } from "./markdown";
+import { RichText } from "./RichText";
+import { createBackup, mergeLibraries, readBackup } from "./backup";
+import { QUIZ_TEXT_EXAMPLE, configToText, parseQuizText } from "./quizText";
+import {
+  CSV_FIELDS,
+  cellRef,
+  columnName,
+  detectDelimiter,
+  guessMapping,
+  parseDelimited,
+  questionsToCsv,
+  rowsToQuestions,
+  type CsvField,
+  type Delimiter,
+} from "./csv";
+import { parseGift, parseMoodleXml, toGift, toMoodleXml } from "./moodle";
+import { createQtiPackage, readQtiPackage } from "./qti";
+import { childPath, locateJsonValues, offsetOf, positionOf, syntaxErrorPosition, type SourcePosition } from "./jsonLocate";
+import { SHARE_MAX_LENGTH, SHARE_WARN_LENGTH, createShareLink, hasSharedBank, readShareLink } from "./share";
+import { LINT_RULES, lintBank, type LintRuleId } from "./bankLint";
+import {
+  QUESTION_BASE_SHAPE,
+  QUESTION_SHAPES,
+  QUESTION_TYPES,
+  SCHEMA_FILE_NAME,
+  SHAPES,
+  createConfigSchema,
+  describeType,
+  scalarProblem,
+  type Shape,
+} from "./configSchema";
+import { askActiveTabToRelease, onReleaseRequested, requestTabLock, type TabLock } from "./tabLock";
+import { SESSION_SCHEMA_VERSION, migrateSession } from "./migrations";
+import {
+  clearDb,
+  deleteRecoveryCopy,
+  describeStorageError,
+  listRecoveryCopies,
+  loadLibraryFromDb,
+  saveLibraryChanges,
+  saveLibraryToDb,
+  saveRecoveryCopy,
+  whenWritesSettle,
+  type RecoveryRecord,
+} from "./storage";
+import type {
+  AppConfig,
+  Attempt,
+  BankEntry,
+  CaseStudy,
+  ClozeBlank,
+  ClozeMatching,
+  ClozeQuestion,
+  HotspotQuestion,
+  Library,
+  MatchQuestion,
+  McqOption,
+  McqQuestion,
+  MultiQuestion,
+  NumericQuestion,
+  OrderQuestion,
+  Question,
+  QuestionTemplate,
+  SessionState,
+  SlideReference,
+} from "./types";
 
-
-type SlideReference = {
-  slideNumber: number;
-  slideTitle?: string;
-  section?: string;
-  fileName?: string;
-};
-
-type QuestionBase = {
-  id: string;
-  prompt: string;
-  explanation?: string;
-  tags?: string[];
-  slideRef?: SlideReference;
-};
-
-type McqOption = { id: string; text: string };
-
-type McqQuestion = QuestionBase & {
-  type: "mcq";
-  options: McqOption[];
-  answerId: string;
-};
-
-type MatchPair = { left: string; right: string };
-
-type MatchQuestion = QuestionBase & {
-  type: "match";
-  pairs: MatchPair[];
-};
-
-type Question = McqQuestion | MatchQuestion;
-
-type AppConfig = {
-  title: string;
-  instructions?: string;
-  questions: Question[];
-};
-
-type Attempt = {
-  questionId: string;
-  type: Question["type"];
-  isCorrect: boolean;
-  chosenAnswerId?: string;
-  chosenPairs?: Array<{ left: string; right: string }>;
-  timestamp: number;
-};
-
-type SessionState = {
-  config: AppConfig;
-  settings: {
-    shuffle: boolean;
-    showExplanations: boolean;
-    autoAdvance: boolean;
-  };
-  progress: {
-    currentIndex: number;
-    order: string[];
-    answersById: Record<string, Attempt>;
-    retryVersionById: Record<string, number>;
-    startedAt: number;
-    completedAt?: number;
-  };
-};
-
+// Progress now lives in IndexedDB (see storage.ts). These localStorage keys are only read once, to migrate:
+// the library kept by earlier builds, and the single session kept before that.
+const LIBRARY_KEY = "quizzer_library_v1";
 const STORAGE_KEY = "quizzer_vite_react_ts_v2";
 
 const sampleConfig: AppConfig = {
@@ -1544,78 +1549,430 @@ function safeJsonParse<T>(text: string): { ok: true; value: T } | { ok: false; e
   }
 }
 
-function assertConfigShape(config: any): { ok: true; value: AppConfig } | { ok: false; error: string } {
-  if (!config || typeof config !== "object") return { ok: false, error: "Config must be an object." };
-  if (typeof config.title !== "string") return { ok: false, error: "Config.title must be a string." };
-  if (!Array.isArray(config.questions)) return { ok: false, error: "Config.questions must be an array." };
-  
+// One problem found in a config. `path` locates the value, e.g. questions[3].options[0].id; line and column are
+// filled in when the config was typed as JSON. Warnings (such as unknown keys, often typos) do not block saving.
+type ConfigIssue = { severity: "error" | "warning"; path: string; message: string; line?: number; column?: number };
+
+type AddIssue = (path: string, message: string, severity?: ConfigIssue["severity"]) => void;
+
+// Unknown keys, and the single-value fields the format describes (strings, numbers, flags, enums). `label` names
+// the object in messages, e.g. "Question q3 option 2".
+function checkFields(value: Record<string, unknown>, shape: Shape, path: string, label: string, add: AddIssue, unknownKeys = true) {
+  if (unknownKeys) {
+    for (const key of Object.keys(value)) {
+      if (!(key in shape.fields)) add(childPath(path, key), `Unknown key "${key}" is ignored. Check the spelling.`, "warning");
+    }
+  }
+  for (const [key, field] of Object.entries(shape.fields)) {
+    if (value[key] === undefined && !field.required) continue;
+    const problem = scalarProblem(field.type, value[key]);
+    if (problem) add(childPath(path, key), `${label} ${key} ${problem}${field.required ? "" : " if provided"}.`);
+  }
+}
+
+// How messages name a case or question: by its id, or by position when the id itself is broken.
+function nameOf(id: unknown, index: number): string {
+  return typeof id === "string" && id.trim() ? id : `#${index + 1}`;
+}
+
+// A list of content-lint rule ids. A misspelt id only means the rule keeps reporting, so it is a warning.
+function checkLintRules(value: unknown, path: string, where: string, add: AddIssue) {
+  if (!Array.isArray(value) || value.some((r) => typeof r !== "string")) {
+    add(path, `${where} must be an array of lint rule ids.`);
+    return;
+  }
+  for (const [k, rule] of value.entries()) {
+    if (!LINT_RULES.some((r) => r.id === rule)) {
+      add(childPath(path, k), `Unknown lint rule "${rule}". Use ${LINT_RULES.map((r) => `"${r.id}"`).join(", ")}.`, "warning");
+    }
+  }
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// Checks the whole config and reports every problem it finds, rather than stopping at the first.
+function validateConfig(config: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const add: AddIssue = (path, message, severity = "error") => issues.push({ severity, path, message });
+
+  if (!isRecord(config)) {
+    add("", "Config must be an object.");
+    return issues;
+  }
+  checkFields(config, SHAPES.AppConfig, "", "Config", add);
+  if (!Array.isArray(config.questions)) add("questions", "Config questions must be an array.");
+
+  const assets = isRecord(config.assets) ? config.assets : undefined;
+  // With a broken assets field, missing-asset reports would only repeat that problem.
+  const assetsOk = config.assets === undefined || !!assets;
+  if (config.assets !== undefined) {
+    if (!assets) {
+      add("assets", "Config.assets must be an object of name → data URL.");
+    } else {
+      for (const [name, url] of Object.entries(assets)) {
+        if (typeof url !== "string" || !url.startsWith("data:")) add(childPath("assets", name), `Asset ${name} must be a data URL.`);
+      }
+    }
+  }
+  if (config.lint !== undefined) {
+    if (!isRecord(config.lint)) add("lint", "Config lint must be an object if provided.");
+    else {
+      checkFields(config.lint, SHAPES.LintSettings, "lint", "Config lint", add);
+      if (config.lint.disabled !== undefined) checkLintRules(config.lint.disabled, "lint.disabled", "Config lint disabled", add);
+    }
+  }
+  // Image fields are type-checked with the rest of their object; this only follows "asset:" references.
+  const checkImage = (value: unknown, where: string, path: string) => {
+    if (typeof value === "string" && value.startsWith(ASSET_PREFIX) && assetsOk && !assets?.[value.slice(ASSET_PREFIX.length)]) {
+      add(path, `${where} image refers to a missing asset: ${value}`);
+    }
+  };
+
+  const caseIds = new Set<string>();
+  if (config.cases !== undefined) {
+    if (!Array.isArray(config.cases)) add("cases", "Config.cases must be an array if provided.");
+    else {
+      for (const [i, c] of config.cases.entries()) {
+        const cp = childPath("cases", i);
+        if (!isRecord(c)) {
+          add(cp, "Each case must be an object.");
+          continue;
+        }
+        checkFields(c, SHAPES.CaseStudy, cp, `Case ${nameOf(c.id, i)}`, add);
+        if (typeof c.id === "string" && c.id.trim()) {
+          if (caseIds.has(c.id)) add(childPath(cp, "id"), `Duplicate case id: ${c.id}`);
+          else caseIds.add(c.id);
+        }
+        checkImage(c.image, `Case ${c.id}`, childPath(cp, "image"));
+      }
+    }
+  }
 
   const ids = new Set<string>();
-  for (const q of config.questions) {
-    if (!q || typeof q !== "object") return { ok: false, error: "Each question must be an object." };
-    if (typeof q.id !== "string" || !q.id.trim()) return { ok: false, error: "Each question must have a non-empty string id." };
-    if (ids.has(q.id)) return { ok: false, error: `Duplicate question id: ${q.id}` };
-    ids.add(q.id);
+  for (const [i, q] of (Array.isArray(config.questions) ? config.questions : []).entries()) {
+    const qp = childPath("questions", i);
+    const at = (key: string) => childPath(qp, key);
+    if (!isRecord(q)) {
+      add(qp, "Each question must be an object.");
+      continue;
+    }
+    // With an unknown type there is no telling which keys belong, so only the common fields are checked.
+    const type = QUESTION_TYPES.find((t) => t === q.type);
+    checkFields(q, type ? QUESTION_SHAPES[type] : QUESTION_BASE_SHAPE, qp, `Question ${nameOf(q.id, i)}`, add, !!type);
+    if (typeof q.id === "string" && q.id.trim()) {
+      if (ids.has(q.id)) add(at("id"), `Duplicate question id: ${q.id}`);
+      else ids.add(q.id);
+    }
 
-    if (typeof q.prompt !== "string" || !q.prompt.trim()) return { ok: false, error: `Question ${q.id} must have a non-empty prompt.` };
-    if (q.type !== "mcq" && q.type !== "match") return { ok: false, error: `Question ${q.id} has invalid type. Use "mcq" or "match".` };
+    if (q.tags !== undefined && (!Array.isArray(q.tags) || q.tags.some((t: unknown) => typeof t !== "string"))) {
+      add(at("tags"), `Question ${q.id} tags must be an array of strings.`);
+    }
+    if (q.lintIgnore !== undefined) checkLintRules(q.lintIgnore, at("lintIgnore"), `Question ${q.id} lintIgnore`, add);
 
     if (q.slideRef !== undefined) {
-      if (typeof q.slideRef !== "object" || q.slideRef === null) {
-        return { ok: false, error: `Question ${q.id} slideRef must be an object.` };
-      }
-    
-      if (typeof q.slideRef.slideNumber !== "number") {
-        return { ok: false, error: `Question ${q.id} slideRef.slideNumber must be a number.` };
+      const sp = at("slideRef");
+      if (!isRecord(q.slideRef)) {
+        add(sp, `Question ${q.id} slideRef must be an object.`);
+      } else {
+        checkFields(q.slideRef, SHAPES.SlideReference, sp, `Question ${q.id} slideRef`, add);
       }
-    
-      if (q.slideRef.slideTitle !== undefined && typeof q.slideRef.slideTitle !== "string") {
-        return { ok: false, error: `Question ${q.id} slideRef.slideTitle must be a string if provided.` };
+    }
+
+    if (q.type === "mcq") {
+      const optIds = checkOptions(q, "MCQ", qp, add);
+      if (optIds && typeof q.answerId === "string" && !optIds.has(q.answerId)) add(at("answerId"), `MCQ ${q.id} answerId must match one of the option ids.`);
+    }
+
+    if (q.type === "multi") {
+      const optIds = checkOptions(q, "Multi", qp, add);
+      if (!Array.isArray(q.answerIds) || q.answerIds.length < 1) {
+        add(at("answerIds"), `Multi ${q.id} answerIds must be a non-empty array.`);
+      } else if (optIds) {
+        const seen = new Set<string>();
+        q.answerIds.forEach((a: unknown, k: number) => {
+          const ap = childPath(at("answerIds"), k);
+          if (typeof a !== "string" || !optIds.has(a)) add(ap, `Multi ${q.id} answerIds must match option ids.`);
+          else if (seen.has(a)) add(ap, `Multi ${q.id} has duplicate answerId: ${a}`);
+          else seen.add(a);
+        });
       }
-    
-      if (q.slideRef.section !== undefined && typeof q.slideRef.section !== "string") {
-        return { ok: false, error: `Question ${q.id} slideRef.section must be a string if provided.` };
+    }
+
+    if (q.type === "cloze") {
+      checkClozeMatching(q.matching, `Cloze ${q.id}`, at("matching"), add);
+      if (!Array.isArray(q.blanks) || q.blanks.length < 1) {
+        add(at("blanks"), `Cloze ${q.id} must have at least 1 blank.`);
+      } else {
+        const blankIds = new Set<string>();
+        for (const [k, b] of q.blanks.entries()) {
+          const bp = childPath(at("blanks"), k);
+          if (!isRecord(b)) {
+            add(bp, `Cloze ${q.id} blanks must be objects.`);
+            continue;
+          }
+          checkFields(b, SHAPES.ClozeBlank, bp, `Cloze ${q.id} blank ${k + 1}`, add);
+          if (typeof b.id === "string" && b.id.trim()) {
+            if (blankIds.has(b.id)) add(childPath(bp, "id"), `Cloze ${q.id} has duplicate blank id: ${b.id}`);
+            else blankIds.add(b.id);
+          }
+          if (!Array.isArray(b.answers) || b.answers.length < 1 || b.answers.some((a: unknown) => typeof a !== "string" || !a.trim())) {
+            add(childPath(bp, "answers"), `Cloze ${q.id} blank ${b.id} answers must be a non-empty array of strings.`);
+          }
+          checkClozeMatching(b.matching, `Cloze ${q.id} blank ${b.id}`, childPath(bp, "matching"), add);
+        }
+        if (typeof q.prompt === "string") {
+          const tokens = clozeBlankTokens(q.prompt);
+          for (const id of blankIds) {
+            if (!tokens.includes(id)) add(at("prompt"), `Cloze ${q.id} prompt is missing {{${id}}}.`);
+          }
+          for (const t of tokens) {
+            if (!blankIds.has(t)) add(at("prompt"), `Cloze ${q.id} prompt uses {{${t}}} but no blank has that id.`);
+          }
+        }
       }
-    
-      if (q.slideRef.fileName !== undefined && typeof q.slideRef.fileName !== "string") {
-        return { ok: false, error: `Question ${q.id} slideRef.fileName must be a string if provided.` };
+    }
+
+    if (q.type === "order") {
+      if (!Array.isArray(q.items) || q.items.length < 2) {
+        add(at("items"), `Order ${q.id} must have at least 2 items.`);
+      } else {
+        const seen = new Set<string>();
+        q.items.forEach((item: unknown, k: number) => {
+          const ip = childPath(at("items"), k);
+          if (typeof item !== "string" || !item.trim()) add(ip, `Order ${q.id} items must be non-empty strings.`);
+          else if (seen.has(item)) add(ip, `Order ${q.id} has duplicate item: ${item}`);
+          else seen.add(item);
+        });
       }
     }
 
-    if (q.type === "mcq") {
-      if (!Array.isArray(q.options) || q.options.length < 2) return { ok: false, error: `MCQ ${q.id} must have at least 2 options.` };
-      const optIds = new Set<string>();
-      for (const o of q.options) {
-        if (!o || typeof o !== "object") return { ok: false, error: `MCQ ${q.id} options must be objects.` };
-        if (typeof o.id !== "string" || !o.id.trim()) return { ok: false, error: `MCQ ${q.id} option id must be a string.` };
-        if (optIds.has(o.id)) return { ok: false, error: `MCQ ${q.id} has duplicate option id: ${o.id}` };
-        optIds.add(o.id);
-        if (typeof o.text !== "string") return { ok: false, error: `MCQ ${q.id} option ${o.id} must have text.` };
+    if (q.type === "numeric") {
+      const computed = isRecord(q.template) && typeof q.template.answer === "string";
+      if (!computed && q.answer === undefined) add(at("answer"), `Numeric ${q.id} needs an answer (or template.answer).`);
+      if (q.tolerance !== undefined) {
+        if (!isRecord(q.tolerance)) add(at("tolerance"), `Numeric ${q.id} tolerance must be an object.`);
+        else checkFields(q.tolerance, SHAPES.NumericTolerance, at("tolerance"), `Numeric ${q.id} tolerance`, add);
       }
-      if (typeof q.answerId !== "string" || !optIds.has(q.answerId)) {
-        return { ok: false, error: `MCQ ${q.id} answerId must match one of the option ids.` };
+      if (typeof q.unit === "string" && !lookupUnit(q.unit)) {
+        add(at("unit"), `Numeric ${q.id} unit must be one of: ${Object.keys(UNITS).join(", ")}.`);
+      }
+      if (q.requireUnit && q.unit === undefined) add(at("requireUnit"), `Numeric ${q.id} requireUnit needs a unit.`);
+    }
+
+    if (q.template !== undefined) checkTemplate(q, at("template"), add);
+
+    checkImage(q.image, `Question ${q.id}`, at("image"));
+    for (const [k, o] of (Array.isArray(q.options) ? q.options : []).entries()) {
+      if (isRecord(o)) checkImage(o.image, `Question ${q.id} option ${o.id}`, childPath(childPath(at("options"), k), "image"));
+    }
+    for (const [k, p] of (Array.isArray(q.pairs) ? q.pairs : []).entries()) {
+      if (!isRecord(p)) continue;
+      const pp = childPath(at("pairs"), k);
+      checkImage(p.leftImage, `Match ${q.id} "${p.left}" left`, childPath(pp, "leftImage"));
+      checkImage(p.rightImage, `Match ${q.id} "${p.left}" right`, childPath(pp, "rightImage"));
+    }
+
+    if (q.type === "hotspot") {
+      if (!Array.isArray(q.regions) || q.regions.length < 1) {
+        add(at("regions"), `Hotspot ${q.id} must have at least 1 region.`);
+      } else {
+        const regionIds = new Set<string>();
+        for (const [k, r] of q.regions.entries()) {
+          const rp = childPath(at("regions"), k);
+          if (!isRecord(r)) {
+            add(rp, `Hotspot ${q.id} regions must be objects.`);
+            continue;
+          }
+          checkFields(r, SHAPES.HotspotRegion, rp, `Hotspot ${q.id} region ${k + 1}`, add);
+          if (typeof r.id === "string" && r.id.trim()) {
+            if (regionIds.has(r.id)) add(childPath(rp, "id"), `Hotspot ${q.id} has duplicate region id: ${r.id}`);
+            else regionIds.add(r.id);
+          }
+          const validPoint = (pt: unknown) =>
+            Array.isArray(pt) && pt.length === 2 && pt.every((n) => typeof n === "number" && n >= 0 && n <= 100);
+          if (!Array.isArray(r.points) || r.points.length < 3 || !r.points.every(validPoint)) {
+            add(childPath(rp, "points"), `Hotspot ${q.id} region ${r.id} needs at least 3 [x, y] points between 0 and 100.`);
+          }
+        }
       }
     }
 
+    if (typeof q.caseId === "string" && !caseIds.has(q.caseId)) {
+      add(at("caseId"), `Question ${q.id} caseId must match one of the case ids.`);
+    }
+
     if (q.type === "match") {
-      if (!Array.isArray(q.pairs) || q.pairs.length < 2) return { ok: false, error: `Match ${q.id} must have at least 2 pairs.` };
-      for (const p of q.pairs) {
-        if (!p || typeof p !== "object") return { ok: false, error: `Match ${q.id} pairs must be objects.` };
-        if (typeof p.left !== "string" || typeof p.right !== "string") return { ok: false, error: `Match ${q.id} pairs must have left and right strings.` };
+      const pairs: unknown[] | undefined = Array.isArray(q.pairs) && q.pairs.length >= 2 ? q.pairs : undefined;
+      if (!pairs) add(at("pairs"), `Match ${q.id} must have at least 2 pairs.`);
+      else {
+        for (const [k, p] of pairs.entries()) {
+          const pp = childPath(at("pairs"), k);
+          if (!isRecord(p)) add(pp, `Match ${q.id} pairs must be objects.`);
+          else checkFields(p, SHAPES.MatchPair, pp, `Match ${q.id} pair ${k + 1}`, add);
+        }
+      }
+      if (q.distractors !== undefined) {
+        if (!Array.isArray(q.distractors) || q.distractors.some((d: unknown) => typeof d !== "string" || !d.trim())) {
+          add(at("distractors"), `Match ${q.id} distractors must be an array of non-empty strings.`);
+        } else if (pairs) {
+          const rights = new Set(pairs.map((p) => (isRecord(p) ? p.right : undefined)));
+          q.distractors.forEach((d: string, k: number) => {
+            if (rights.has(d)) add(childPath(at("distractors"), k), `Match ${q.id} distractor "${d}" is also a correct right item.`);
+          });
+        }
       }
     }
   }
 
-  return { ok: true, value: config as AppConfig };
+  return issues;
 }
 
-function shuffleArray<T>(arr: T[], seed?: number): T[] {
-  const a = [...arr];
-  let s = typeof seed === "number" ? seed : Date.now();
-  const rand = () => {
+// For imports and stored banks, which only need to know whether a config is usable.
+function assertConfigShape(config: unknown): { ok: true; value: AppConfig } | { ok: false; error: string } {
+  const errors = validateConfig(config).filter((i) => i.severity === "error");
+  if (errors.length === 0) return { ok: true, value: config as AppConfig };
+  const more = errors.length > 1 ? ` (and ${errors.length - 1} more problem${errors.length > 2 ? "s" : ""})` : "";
+  return { ok: false, error: `${errors[0].message}${more}` };
+}
+
+// The Settings editor's text as a config, with every problem found. JSON issues carry the line and column of the
+// value they concern; the text format reports lines for its own syntax problems.
+function checkDraft(text: string, format: "json" | "text"): { config?: AppConfig; issues: ConfigIssue[] } {
+  let value: unknown;
+  let positions: Map<string, SourcePosition> | undefined;
+  if (format === "text") {
+    const parsed = parseQuizText(text);
+    if (!parsed.ok) return { issues: parsed.errors.map((e) => ({ severity: "error", path: "", message: e.message, line: e.line, column: 1 })) };
+    value = parsed.value;
+  } else {
+    try {
+      value = JSON.parse(text);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Invalid JSON";
+      return { issues: [{ severity: "error", path: "", message, ...syntaxErrorPosition(text, message) }] };
+    }
+    positions = locateJsonValues(text);
+  }
+  const issues = validateConfig(value)
+    .map((issue) => ({ ...issue, ...(positions ? positionOf(positions, issue.path) : undefined) }))
+    .sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity) || (a.column ?? 0) - (b.column ?? 0));
+  return { config: issues.some((i) => i.severity === "error") ? undefined : (value as AppConfig), issues };
+}
+
+// Returns the option ids, or null when the options are too broken to check answers against.
+function checkOptions(q: Record<string, unknown>, label: string, path: string, add: AddIssue): Set<string> | null {
+  const op = childPath(path, "options");
+  if (!Array.isArray(q.options) || q.options.length < 2) {
+    add(op, `${label} ${q.id} must have at least 2 options.`);
+    return null;
+  }
+  const optIds = new Set<string>();
+  q.options.forEach((o, k) => {
+    const p = childPath(op, k);
+    if (!isRecord(o)) {
+      add(p, `${label} ${q.id} options must be objects.`);
+      return;
+    }
+    checkFields(o, SHAPES.McqOption, p, `${label} ${q.id} option ${k + 1}`, add);
+    if (typeof o.id === "string" && o.id.trim()) {
+      if (optIds.has(o.id)) add(childPath(p, "id"), `${label} ${q.id} has duplicate option id: ${o.id}`);
+      else optIds.add(o.id);
+    }
+  });
+  return optIds;
+}
+
+function checkClozeMatching(m: unknown, label: string, path: string, add: AddIssue) {
+  if (m === undefined) return;
+  if (!isRecord(m)) {
+    add(path, `${label} matching must be an object.`);
+    return;
+  }
+  checkFields(m, SHAPES.ClozeMatching, path, `${label} matching`, add);
+}
+
+const CLOZE_TOKEN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+function clozeBlankTokens(prompt: string): string[] {
+  return [...prompt.matchAll(CLOZE_TOKEN)].map((m) => m[1]);
+}
+
+// Factors convert to the base unit of each dimension (g, L, unit). Keys are lower-case.
+const UNITS: Record<string, { dimension: "mass" | "volume" | "count"; factor: number; label: string }> = {
+  mcg: { dimension: "mass", factor: 1e-6, label: "mcg" },
+  µg: { dimension: "mass", factor: 1e-6, label: "mcg" },
+  μg: { dimension: "mass", factor: 1e-6, label: "mcg" },
+  ug: { dimension: "mass", factor: 1e-6, label: "mcg" },
+  mg: { dimension: "mass", factor: 1e-3, label: "mg" },
+  g: { dimension: "mass", factor: 1, label: "g" },
+  kg: { dimension: "mass", factor: 1e3, label: "kg" },
+  ml: { dimension: "volume", factor: 1e-3, label: "mL" },
+  cc: { dimension: "volume", factor: 1e-3, label: "mL" },
+  dl: { dimension: "volume", factor: 0.1, label: "dL" },
+  l: { dimension: "volume", factor: 1, label: "L" },
+  unit: { dimension: "count", factor: 1, label: "units" },
+  units: { dimension: "count", factor: 1, label: "units" },
+  u: { dimension: "count", factor: 1, label: "units" },
+  iu: { dimension: "count", factor: 1, label: "units" },
+};
+
+function lookupUnit(unit: string) {
+  return UNITS[unit.trim().toLowerCase()];
+}
+
+function seededRandom(seed: number): () => number {
+  let s = seed >>> 0;
+  return () => {
     s = (s * 1664525 + 1013904223) % 4294967296;
     return s / 4294967296;
   };
+}
+
+function hashString(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+const ASSET_PREFIX = "asset:";
+
+function resolveImage(src: string | undefined, assets?: Record<string, string>): string | undefined {
+  if (!src || !src.startsWith(ASSET_PREFIX)) return src;
+  return assets?.[src.slice(ASSET_PREFIX.length)];
+}
+
+// Swaps "asset:" references for their data URLs so views can use image fields as plain src values.
+function resolveQuestionImages(q: Question, assets?: Record<string, string>): Question {
+  if (!assets) return q;
+  const resolved = { ...q, image: resolveImage(q.image, assets) } as Question;
+  if (resolved.type === "mcq" || resolved.type === "multi") {
+    resolved.options = resolved.options.map((o) => (o.image ? { ...o, image: resolveImage(o.image, assets) } : o));
+  }
+  if (resolved.type === "match") {
+    resolved.pairs = resolved.pairs.map((p) => ({ ...p, leftImage: resolveImage(p.leftImage, assets), rightImage: resolveImage(p.rightImage, assets) }));
+  }
+  return resolved;
+}
+
+// Ray casting: count how many polygon edges a horizontal ray from the point crosses.
+function pointInPolygon(x: number, y: number, points: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+function shuffleArray<T>(arr: T[], seed?: number): T[] {
+  const a = [...arr];
+  const rand = seededRandom(typeof seed === "number" ? seed : Date.now());
   for (let i = a.length - 1; i > 0; i--) {
     const j = Math.floor(rand() * (i + 1));
     [a[i], a[j]] = [a[j], a[i]];
@@ -1623,174 +1980,999 @@ function shuffleArray<T>(arr: T[], seed?: number): T[] {
   return a;
 }
 
-function buildDefaultSession(config: AppConfig): SessionState {
-  const baseOrder = config.questions.map((q) => q.id);
+// Question order for a new session. A case moves as one block, placed where its first child appears,
+// so shuffling never splits a vignette's questions or reorders them.
+function buildOrder(config: AppConfig, shuffle: boolean, seed?: number): string[] {
+  const blocks: string[][] = [];
+  const caseBlocks = new Map<string, string[]>();
+  for (const q of config.questions) {
+    if (!q.caseId) {
+      blocks.push([q.id]);
+      continue;
+    }
+    const block = caseBlocks.get(q.caseId);
+    if (block) {
+      block.push(q.id);
+    } else {
+      const fresh = [q.id];
+      caseBlocks.set(q.caseId, fresh);
+      blocks.push(fresh);
+    }
+  }
+  return (shuffle ? shuffleArray(blocks, seed) : blocks).flat();
+}
+
+type PrintOptions = {
+  tags: string[]; // print only questions with one of these tags; empty prints everything
+  shuffle: boolean;
+  seed: number; // the same seed always gives the same paper, so a class can share one version
+  answerSpace: boolean;
+};
+
+// A question as laid out on paper. Options are listed in print order. Match right items and order items are
+// always scrambled, since the stored order would give the answer away.
+type PrintItem = {
+  number: number;
+  question: Question;
+  caseStudy?: CaseStudy; // set on the first printed question of each case
+  options?: McqOption[];
+  lefts?: string[];
+  rights?: string[];
+  items?: string[];
+};
+
+// Questions whose template cannot be drawn for this paper are left out and listed in `skipped`.
+function buildWorksheet(config: AppConfig, options: PrintOptions): { items: PrintItem[]; skipped: string[] } {
+  const wanted = new Set(options.tags);
+  const questions = wanted.size ? config.questions.filter((q) => q.tags?.some((t) => wanted.has(t))) : config.questions;
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  const casesById = new Map((config.cases ?? []).map((c) => [c.id, c]));
+  let lastCaseId: string | undefined;
+
+  const items: PrintItem[] = [];
+  const skipped: string[] = [];
+  for (const id of buildOrder({ ...config, questions }, options.shuffle, options.seed)) {
+    const seed = hashString(`${options.seed}:${id}`);
+    const drawn = tryInstantiate(byId.get(id) as Question, seed);
+    if (!drawn.ok) {
+      skipped.push(`${id}: ${drawn.error}`);
+      continue;
+    }
+    const question = resolveQuestionImages(drawn.value, config.assets);
+    const item: PrintItem = { number: items.length + 1, question };
+    if (question.caseId && question.caseId !== lastCaseId) item.caseStudy = casesById.get(question.caseId);
+    lastCaseId = question.caseId;
+
+    if (question.type === "mcq" || question.type === "multi") {
+      item.options = options.shuffle ? shuffleArray(question.options, seed) : question.options;
+    } else if (question.type === "match") {
+      item.lefts = [...new Set(question.pairs.map((p) => p.left))];
+      item.rights = shuffleArray([...new Set([...question.pairs.map((p) => p.right), ...(question.distractors ?? [])])], seed);
+    } else if (question.type === "order") {
+      item.items = shuffleArray(question.items, seed);
+    }
+    items.push(item);
+  }
+  return { items, skipped };
+}
+
+function letter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// The answer as the key prints it, using the letters and numbers of the printed paper.
+function printedAnswer(item: PrintItem): string {
+  const q = item.question;
+  const letterOf = (list: string[] | undefined, value: string) => letter(list?.indexOf(value) ?? -1);
+  const optionIds = item.options?.map((o) => o.id);
+  switch (q.type) {
+    case "mcq":
+      return `${letterOf(optionIds, q.answerId)}. ${toPlainText(q.options.find((o) => o.id === q.answerId)?.text ?? "")}`;
+    case "multi":
+      return q.answerIds
+        .map((id) => letterOf(optionIds, id))
+        .sort()
+        .join(", ");
+    case "cloze":
+      return q.blanks.map((b, i) => `(${i + 1}) ${b.answers.join(" / ")}`).join("; ");
+    case "order":
+      return q.items.map((it) => letterOf(item.items, it)).join(", ");
+    case "numeric":
+      return numericExpectedText(q);
+    case "hotspot":
+      return `Inside ${q.regions.map((r) => r.label ?? r.id).join(" or ")}`;
+    case "match": {
+      const accepted = matchAcceptedRights(q);
+      return (item.lefts ?? []).map((l, i) => `${i + 1}–${[...(accepted.get(l) ?? [])].map((r) => letterOf(item.rights, r)).join("/")}`).join(", ");
+    }
+  }
+}
+
+function slideCitation(ref: SlideReference): string {
+  let text = `Slide ${ref.slideNumber}`;
+  if (ref.slideTitle) text += ` – ${ref.slideTitle}`;
+  if (ref.section) text += ` | ${ref.section}`;
+  if (ref.fileName) text += ` (${ref.fileName})`;
+  return text;
+}
 
+function buildDefaultSession(config: AppConfig): SessionState {
   // Default settings
   const settings = { shuffle: true, showExplanations: true, autoAdvance: false };
 
   // Shuffle immediately on first load if shuffle is enabled
-  const order = settings.shuffle ? shuffleArray(baseOrder) : baseOrder;
+  const order = buildOrder(config, settings.shuffle);
 
   return {
+    schemaVersion: SESSION_SCHEMA_VERSION,
     config,
     settings,
     progress: {
       currentIndex: 0,
       order,
-      answersById: {},
       retryVersionById: {},
       startedAt: Date.now(),
       completedAt: undefined,
     },
+    history: [],
   };
 }
 
-function loadSession(): SessionState {
-  const raw = localStorage.getItem(STORAGE_KEY);
-  if (!raw) return buildDefaultSession(sampleConfig);
+// Upgrades a stored session to the current schema and reconciles its progress with its own config.
+function loadStoredSession(stored: unknown): { ok: true; value: SessionState } | { ok: false; error: string } {
+  const migrated = migrateSession(stored);
+  if (!migrated.ok) return migrated;
+  const session = migrated.value;
 
-  const parsed = safeJsonParse<SessionState>(raw);
-  if (!parsed.ok) return buildDefaultSession(sampleConfig);
-
-  const cfgCheck = assertConfigShape(parsed.value.config);
-  if (!cfgCheck.ok) return buildDefaultSession(sampleConfig);
+  const cfgCheck = assertConfigShape(session.config);
+  if (!cfgCheck.ok) return { ok: false, error: `Stored config is invalid: ${cfgCheck.error}` };
 
   const cfg = cfgCheck.value;
-  const order = Array.isArray(parsed.value.progress?.order) ? parsed.value.progress.order : cfg.questions.map((q) => q.id);
+  const order = Array.isArray(session.progress.order) ? session.progress.order : cfg.questions.map((q) => q.id);
   const cleanOrder = order.filter((id) => cfg.questions.some((q) => q.id === id));
   const missing = cfg.questions.map((q) => q.id).filter((id) => !cleanOrder.includes(id));
   const finalOrder = [...cleanOrder, ...missing];
 
   return {
-    config: cfg,
-    settings: {
-      shuffle: !!parsed.value.settings?.shuffle,
-      showExplanations: parsed.value.settings?.showExplanations ?? true,
-      autoAdvance: parsed.value.settings?.autoAdvance ?? true,
-    },
-    progress: {
-      currentIndex: Math.min(Math.max(parsed.value.progress?.currentIndex ?? 0, 0), Math.max(finalOrder.length - 1, 0)),
-      order: finalOrder,
-      answersById: parsed.value.progress?.answersById ?? {},
-      retryVersionById: parsed.value.progress?.retryVersionById ?? {},
-      startedAt: parsed.value.progress?.startedAt ?? Date.now(),
-      completedAt: parsed.value.progress?.completedAt,
+    ok: true,
+    value: {
+      ...session,
+      config: cfg,
+      progress: {
+        ...session.progress,
+        currentIndex: Math.min(Math.max(session.progress.currentIndex, 0), Math.max(finalOrder.length - 1, 0)),
+        order: finalOrder,
+      },
     },
   };
 }
 
-function saveSession(session: SessionState) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+function newBankId(): string {
+  return `bank_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
-function percent(n: number, d: number) {
-  if (d <= 0) return 0;
-  return Math.round((n / d) * 100);
+function createBank(session: SessionState, name?: string): BankEntry {
+  return { id: newBankId(), name: name ?? session.config.title, createdAt: Date.now(), session };
 }
 
-function nowMs() {
-  return Date.now();
+function recoveryCopy(source: string, reason: string, data: string): RecoveryRecord {
+  return { savedAt: Date.now(), source, reason, data };
 }
 
-export default function App() {
-  const [session, setSession] = useState<SessionState>(() => loadSession());
-  const [tab, setTab] = useState<"quiz" | "review" | "settings">("quiz");
-
-  const [settingsDraft, setSettingsDraft] = useState<string>(() => JSON.stringify(session.config, null, 2));
-  const [settingsError, setSettingsError] = useState<string>("");
-  const [toast, setToast] = useState<string>("");
+// Keeps every bank that loads. Banks that cannot be read are left out and described in `recovered` instead.
+function readLibrary(stored: Library, source: string, recovered: RecoveryRecord[]): Library | null {
+  if (!Array.isArray(stored?.banks)) {
+    recovered.push(recoveryCopy(source, "The library has no list of banks.", JSON.stringify(stored)));
+    return null;
+  }
+  const banks: BankEntry[] = [];
+  for (const b of stored.banks) {
+    const loaded = b && typeof b.id === "string" ? loadStoredSession(b.session) : { ok: false as const, error: "The bank has no id." };
+    if (!loaded.ok) {
+      recovered.push(recoveryCopy(`${source}, bank "${b?.name ?? b?.id ?? "?"}"`, loaded.error, JSON.stringify(b)));
+      continue;
+    }
+    const name = typeof b.name === "string" && b.name.trim() ? b.name : loaded.value.config.title;
+    banks.push({ ...b, name, session: loaded.value });
+  }
+  if (banks.length === 0) return null;
+  const activeBankId = banks.some((b) => b.id === stored.activeBankId) ? stored.activeBankId : banks[0].id;
+  return { activeBankId, banks };
+}
 
-  const toastTimer = useRef<number | null>(null);
+function defaultLibrary(): Library {
+  const demo = createBank(buildDefaultSession(sampleConfig));
+  return { activeBankId: demo.id, banks: [demo] };
+}
 
-  useEffect(() => {
-    saveSession(session);
-  }, [session]);
+// What earlier builds kept in localStorage: a library, or before that a single session that becomes the first bank.
+function readLocalStorageLibrary(recovered: RecoveryRecord[]): Library | null {
+  const raw = localStorage.getItem(LIBRARY_KEY);
+  if (raw) {
+    const parsed = safeJsonParse<Library>(raw);
+    if (!parsed.ok) recovered.push(recoveryCopy("Library saved in localStorage", parsed.error, raw));
+    const library = parsed.ok ? readLibrary(parsed.value, "Library saved in localStorage", recovered) : null;
+    if (library) return library;
+  }
 
-  const questionsById = useMemo(() => {
-    const m = new Map<string, Question>();
-    for (const q of session.config.questions) m.set(q.id, q);
-    return m;
-  }, [session.config.questions]);
+  const legacyRaw = localStorage.getItem(STORAGE_KEY);
+  if (!legacyRaw) return null;
+  const legacy = safeJsonParse<unknown>(legacyRaw);
+  const loaded = legacy.ok ? loadStoredSession(legacy.value) : legacy;
+  if (!loaded.ok) {
+    recovered.push(recoveryCopy("Session saved in localStorage", loaded.error, legacyRaw));
+    return null;
+  }
+  const first = createBank(loaded.value);
+  return { activeBankId: first.id, banks: [first] };
+}
 
-  const orderedQuestions = useMemo(() => {
-    return session.progress.order.map((id) => questionsById.get(id)).filter(Boolean) as Question[];
-  }, [session.progress.order, questionsById]);
+// Loads the library from IndexedDB. On first run, any localStorage data is copied across and then removed.
+// Older sessions are migrated and written back. Anything unreadable goes to the recovery store before it is
+// dropped. If IndexedDB cannot be used, the app still runs from memory and reports why nothing will be saved.
+async function openLibrary(): Promise<{ library: Library; recovered: RecoveryRecord[]; notice?: string; error?: string }> {
+  const recovered: RecoveryRecord[] = [];
+  try {
+    const stored = await loadLibraryFromDb();
+    let library: Library;
+    if (stored) {
+      library = readLibrary(stored, "Saved library", recovered) ?? defaultLibrary();
+      for (const r of recovered) await saveRecoveryCopy(r);
+      if (recovered.length > 0 || stored.banks.some((b) => b.session.schemaVersion !== SESSION_SCHEMA_VERSION)) {
+        await saveLibraryChanges(stored, library);
+      }
+    } else {
+      library = readLocalStorageLibrary(recovered) ?? defaultLibrary();
+      for (const r of recovered) await saveRecoveryCopy(r);
+      await saveLibraryToDb(library);
+      localStorage.removeItem(LIBRARY_KEY);
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    const notice = recovered.length > 0 ? "Some saved data could not be read. A copy was kept under Settings > Recovered data." : undefined;
+    return { library, recovered: await listRecoveryCopies(), notice };
+  } catch (e) {
+    return { library: readLocalStorageLibrary([]) ?? defaultLibrary(), recovered: [], error: describeStorageError(e) };
+  }
+}
 
-  const total = orderedQuestions.length;
-  const current = orderedQuestions[session.progress.currentIndex];
+// A bank title as a file name, e.g. "Cardio: week 3" -> "cardio-week-3".
+function fileSlug(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "quizzer";
+}
 
-  const answeredCount = useMemo(() => Object.keys(session.progress.answersById).length, [session.progress.answersById]);
+function downloadText(filename: string, text: string, type = "application/json") {
+  downloadBlob(filename, new Blob([text], { type }));
+}
 
-  const correctCount = useMemo(() => {
-    return Object.values(session.progress.answersById).filter((a) => a.isCorrect).length;
-  }, [session.progress.answersById]);
+function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
 
-  const incorrectIds = useMemo(() => {
-    return Object.values(session.progress.answersById).filter((a) => !a.isCorrect).map((a) => a.questionId);
-  }, [session.progress.answersById]);
+// All-or-nothing credits only an exact selection. Partial credit follows the usual SATA rule:
+// +1 per correct option ticked, -1 per wrong option ticked, floored at zero.
+function scoreMulti(question: MultiQuestion, chosen: string[]): { isCorrect: boolean; score: number } {
+  const answers = new Set(question.answerIds);
+  const picked = new Set(chosen);
+  const hits = [...picked].filter((id) => answers.has(id)).length;
+  const misses = picked.size - hits;
+  const isCorrect = hits === answers.size && misses === 0;
+  if (question.scoring !== "partial") return { isCorrect, score: isCorrect ? 1 : 0 };
+  return { isCorrect, score: Math.max(0, hits - misses) / answers.size };
+}
 
-  const completionPct = percent(answeredCount, total);
+function normalizeClozeText(text: string, m: ClozeMatching): string {
+  let t = text.normalize("NFKC");
+  if (m.collapseWhitespace !== false) t = t.trim().replace(/\s+/g, " ");
+  if (m.ignoreAccents !== false) t = t.normalize("NFD").replace(/\p{M}/gu, "").normalize("NFC");
+  if (!m.caseSensitive) t = t.toLocaleLowerCase();
+  return t;
+}
 
-  function showToast(msg: string) {
-    setToast(msg);
-    if (toastTimer.current) window.clearTimeout(toastTimer.current);
-    toastTimer.current = window.setTimeout(() => setToast(""), 1600);
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions, which covers most typing slips.
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
   }
+  return d[a.length][b.length];
+}
 
-  function startNewSessionShuffleMaybe() {
-    setSession((prev) => {
-      const baseOrder = prev.config.questions.map((q) => q.id);
-      const order = prev.settings.shuffle ? shuffleArray(baseOrder) : baseOrder;
-      return {
-        ...prev,
-        progress: {
-          currentIndex: 0,
-          order,
-          answersById: {},
-          retryVersionById: {},
-          startedAt: nowMs(),
-          completedAt: undefined,
-        },
-      };
-    });
-  }
+function clozeBlankMatches(typed: string, blank: ClozeBlank, questionMatching?: ClozeMatching): boolean {
+  const m = { ...questionMatching, ...blank.matching };
+  const input = normalizeClozeText(typed, m);
+  if (!input) return false;
+  const maxTypos = m.maxTypos ?? 0;
+  return blank.answers.some((ans) => {
+    const target = normalizeClozeText(ans, m);
+    if (input === target) return true;
+    // Short answers ("K+", "IV") are too easy to hit by accident with a typo allowance.
+    return maxTypos > 0 && target.length >= 4 && editDistance(input, target) <= maxTypos;
+  });
+}
 
-  function resetAnswersKeepOrder() {
-    setSession((prev) => ({
-      ...prev,
-      progress: {
-        ...prev.progress,
-        currentIndex: 0,
-        answersById: {},
-        retryVersionById: {},
-        startedAt: nowMs(),
-        completedAt: undefined,
-      },
-    }));
-    showToast("Answers reset");
-    setTab("quiz");
-  }
+function scoreCloze(question: ClozeQuestion, typed: Record<string, string>) {
+  const blankResults: Record<string, boolean> = {};
+  for (const b of question.blanks) blankResults[b.id] = clozeBlankMatches(typed[b.id] ?? "", b, question.matching);
+  const hits = Object.values(blankResults).filter(Boolean).length;
+  return { isCorrect: hits === question.blanks.length, score: hits / question.blanks.length, blankResults };
+}
 
-  function jumpTo(index: number) {
-    setSession((prev) => ({
-      ...prev,
-      progress: {
-        ...prev.progress,
-        currentIndex: Math.min(Math.max(index, 0), Math.max(prev.progress.order.length - 1, 0)),
-      },
-    }));
-  }
+function matchAcceptedRights(question: MatchQuestion): Map<string, Set<string>> {
+  const m = new Map<string, Set<string>>();
+  for (const p of question.pairs) m.set(p.left, (m.get(p.left) ?? new Set<string>()).add(p.right));
+  return m;
+}
 
-  function goPrev() {
-    setSession((prev) => ({
-      ...prev,
-      progress: {
-        ...prev.progress,
-        currentIndex: Math.max(0, prev.progress.currentIndex - 1),
-      },
-    }));
-  }
+// One point per left row whose chosen right is one of its accepted rights.
+function scoreMatch(question: MatchQuestion, chosenPairs: Array<{ left: string; right: string }>): { isCorrect: boolean; score: number } {
+  const accepted = matchAcceptedRights(question);
+  const hits = [...accepted].filter(([left, rights]) => {
+    const chosen = chosenPairs.find((p) => p.left === left);
+    return !!chosen && rights.has(chosen.right);
+  }).length;
+  return { isCorrect: hits === accepted.size, score: hits / accepted.size };
+}
+
+function longestCommonSubsequence<T>(a: T[], b: T[]): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, () => Array<number>(b.length + 1).fill(0));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = a[i - 1] === b[j - 1] ? d[i - 1][j - 1] + 1 : Math.max(d[i - 1][j], d[i][j - 1]);
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function scoreOrder(question: OrderQuestion, chosen: string[]): { isCorrect: boolean; score: number } {
+  const isCorrect = chosen.length === question.items.length && chosen.every((item, i) => item === question.items[i]);
+  if (question.scoring !== "partial") return { isCorrect, score: isCorrect ? 1 : 0 };
+  return { isCorrect, score: longestCommonSubsequence(chosen, question.items) / question.items.length };
+}
+
+function formatNumber(n: number): string {
+  return String(Number(n.toPrecision(6)));
+}
+
+// Reads "2.5", "2.5 mg", "0.0025g" or "1,000 mL" and converts it into the question's unit.
+function parseNumericInput(question: NumericQuestion, raw: string): { ok: true; value: number } | { ok: false; error: string } {
+  const m = raw.replace(/(\d),(\d{3})\b/g, "$1$2").match(/^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*([^\d\s].*?)?\s*$/i);
+  if (!m) return { ok: false, error: "Not a number" };
+  const value = Number(m[1]);
+  const typedUnit = m[2];
+  if (!question.unit) return typedUnit ? { ok: false, error: "No unit expected" } : { ok: true, value };
+  if (!typedUnit) return question.requireUnit ? { ok: false, error: "Unit required" } : { ok: true, value };
+
+  const from = lookupUnit(typedUnit);
+  const to = lookupUnit(question.unit)!;
+  if (!from) return { ok: false, error: `Unknown unit "${typedUnit}"` };
+  if (from.dimension !== to.dimension) return { ok: false, error: `"${typedUnit}" cannot be converted to ${to.label}` };
+  return { ok: true, value: (value * from.factor) / to.factor };
+}
+
+function numericAllowance(question: NumericQuestion): number {
+  const t = question.tolerance;
+  if (!t) return 0;
+  return t.kind === "absolute" ? t.value : Math.abs(question.answer) * t.value;
+}
+
+function scoreNumeric(question: NumericQuestion, raw: string): { isCorrect: boolean; numericValue?: number } {
+  const parsed = parseNumericInput(question, raw);
+  if (!parsed.ok) return { isCorrect: false };
+  // The epsilon absorbs float noise from unit conversion (0.1 g → 100.00000000000001 mg).
+  const isCorrect = Math.abs(parsed.value - question.answer) <= numericAllowance(question) + 1e-9 * Math.max(1, Math.abs(question.answer));
+  return { isCorrect, numericValue: parsed.value };
+}
+
+function numericExpectedText(question: NumericQuestion): string {
+  const unit = question.unit ? ` ${lookupUnit(question.unit)?.label ?? question.unit}` : "";
+  const t = question.tolerance;
+  const tol = !t || t.value === 0 ? "" : t.kind === "absolute" ? ` ± ${formatNumber(t.value)}${unit}` : ` ± ${formatNumber(t.value * 100)}%`;
+  return `${formatNumber(question.answer)}${unit}${tol}`;
+}
+
+function numericFeedback(question: NumericQuestion, attempt: Attempt): string {
+  const raw = attempt.rawInput ?? "";
+  if (attempt.numericValue === undefined) {
+    const parsed = parseNumericInput(question, raw);
+    return `Could not read "${raw}"${parsed.ok ? "" : `: ${parsed.error}`}. Expected ${numericExpectedText(question)}.`;
+  }
+  const unit = question.unit ? ` ${lookupUnit(question.unit)?.label ?? question.unit}` : "";
+  const diff = attempt.numericValue - question.answer;
+  const rel = question.answer !== 0 ? ` (${Number((Math.abs(diff / question.answer) * 100).toFixed(1))}%)` : "";
+  const converted = parseFloat(raw.replace(/,/g, "")) !== attempt.numericValue ? ` = ${formatNumber(attempt.numericValue)}${unit}` : "";
+  const off = diff === 0 ? "exact" : `${diff > 0 ? "over" : "under"} by ${formatNumber(Math.abs(diff))}${unit}${rel}`;
+  return `You entered ${raw.trim()}${converted}; expected ${numericExpectedText(question)}. That is ${off}.`;
+}
+
+const TEMPLATE_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  round: (x, d = 0) => Math.round(x * 10 ** d) / 10 ** d,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  min: Math.min,
+  max: Math.max,
+};
+
+// Small arithmetic evaluator for template formulas: numbers, variables, + - * / ^, parentheses and TEMPLATE_FUNCTIONS.
+// Imported banks are untrusted, so this never reaches eval or Function.
+function evaluateFormula(expr: string, vars: Record<string, number>): number {
+  const tokens = expr.match(/\d+\.?\d*(?:e[-+]?\d+)?|\.\d+|[A-Za-z_]\w*|[-+*/^(),]|\S/gi) ?? [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const take = (t?: string) => {
+    const tok = tokens[pos];
+    if (t !== undefined && tok !== t) throw new Error(`Expected "${t}" in "${expr}"`);
+    pos++;
+    return tok;
+  };
+
+  function primary(): number {
+    const tok = take();
+    if (tok === undefined) throw new Error(`Unexpected end of "${expr}"`);
+    if (tok === "(") {
+      const v = sum();
+      take(")");
+      return v;
+    }
+    if (/^(\d|\.\d)/.test(tok)) return Number(tok);
+    if (/^[A-Za-z_]/.test(tok)) {
+      if (peek() === "(") {
+        const fn = TEMPLATE_FUNCTIONS[tok];
+        if (!fn) throw new Error(`Unknown function "${tok}"`);
+        take("(");
+        const args: number[] = [];
+        if (peek() !== ")") {
+          args.push(sum());
+          while (peek() === ",") {
+            take(",");
+            args.push(sum());
+          }
+        }
+        take(")");
+        return fn(...args);
+      }
+      if (!(tok in vars)) throw new Error(`Unknown variable "${tok}"`);
+      return vars[tok];
+    }
+    throw new Error(`Unexpected "${tok}" in "${expr}"`);
+  }
+
+  function unary(): number {
+    if (peek() === "-") {
+      take();
+      return -unary();
+    }
+    if (peek() === "+") {
+      take();
+      return unary();
+    }
+    const base = primary();
+    if (peek() === "^") {
+      take();
+      return base ** unary();
+    }
+    return base;
+  }
+
+  function product(): number {
+    let v = unary();
+    while (peek() === "*" || peek() === "/") v = take() === "*" ? v * unary() : v / unary();
+    return v;
+  }
+
+  function sum(): number {
+    let v = product();
+    while (peek() === "+" || peek() === "-") v = take() === "+" ? v + product() : v - product();
+    return v;
+  }
+
+  const result = sum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}" in "${expr}"`);
+  if (!Number.isFinite(result)) throw new Error(`"${expr}" did not produce a finite number`);
+  return result;
+}
+
+// A corner draws every range and choice variable at its lowest ("min") or highest ("max") value instead of at random;
+// validation uses corners to reach the edge values a few random draws could miss.
+function drawTemplateVariables(template: QuestionTemplate, seed: number, corner?: "min" | "max"): Record<string, number> {
+  // Hash the seed first: the LCG's first draws barely differ for neighbouring seeds.
+  const rand = seededRandom(hashString(String(seed)));
+  const vars: Record<string, number> = {};
+  for (const [name, v] of Object.entries(template.variables)) {
+    if ("formula" in v) {
+      vars[name] = evaluateFormula(v.formula, vars);
+    } else if ("choices" in v) {
+      vars[name] = corner ? Math[corner](...v.choices) : v.choices[Math.floor(rand() * v.choices.length)];
+    } else if (corner) {
+      vars[name] = corner === "min" ? v.min : Number((v.min + Math.floor((v.max - v.min) / (v.step ?? 1) + 1e-9) * (v.step ?? 1)).toFixed(10));
+    } else {
+      const step = v.step ?? 1;
+      const slots = Math.floor((v.max - v.min) / step + 1e-9);
+      // toFixed trims the float noise of min + k * step (0.1 * 3 = 0.30000000000000004).
+      vars[name] = Number((v.min + Math.floor(rand() * (slots + 1)) * step).toFixed(10));
+    }
+  }
+  return vars;
+}
+
+const TEMPLATE_TOKEN = /\[\[([^[\]]+?)(?:\|(\d+))?\]\]/g;
+
+function fillTemplateText(text: string, vars: Record<string, number>): string {
+  return text.replace(TEMPLATE_TOKEN, (_, expr: string, decimals?: string) => {
+    const v = evaluateFormula(expr, vars);
+    return decimals === undefined ? formatNumber(v) : v.toFixed(Number(decimals));
+  });
+}
+
+function fillTemplateDeep<T>(value: T, vars: Record<string, number>): T {
+  if (typeof value === "string") return fillTemplateText(value, vars) as T;
+  if (Array.isArray(value)) return value.map((v) => fillTemplateDeep(v, vars)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, k === "id" ? v : fillTemplateDeep(v, vars)])) as T;
+  }
+  return value;
+}
+
+// A fresh instance per session and per retry, so looping back to a missed question shows new numbers.
+function templateSeed(questionId: string, progress: SessionState["progress"]): number {
+  return hashString(`${questionId}:${progress.startedAt}:${progress.retryVersionById[questionId] ?? 0}`);
+}
+
+// What a view reports when a question is answered; recordAttempt adds the session, retry and timing.
+type AnswerDraft = Omit<Attempt, "sessionStartedAt" | "retry" | "timeSpentMs">;
+
+// The current session's answers: the latest attempt at each question made in this session on its current retry.
+// Looping back to a missed question bumps its retry, so the question shows as unanswered again.
+function currentAnswers(history: Attempt[], progress: SessionState["progress"]): Record<string, Attempt> {
+  const answers: Record<string, Attempt> = {};
+  for (const a of history) {
+    if (a.sessionStartedAt === progress.startedAt && a.retry === (progress.retryVersionById[a.questionId] ?? 0)) answers[a.questionId] = a;
+  }
+  return answers;
+}
+
+// Throws if a formula is invalid or a draw gives a non-finite value. validateConfig tries the corners and a spread of
+// seeds, but cannot rule out every draw, so views go through tryInstantiate.
+function instantiateQuestion(q: Question, seed: number, corner?: "min" | "max"): Question {
+  if (!q.template) return q;
+  const { template, ...rest } = q;
+  const vars = drawTemplateVariables(template, seed, corner);
+  const instance = fillTemplateDeep(rest, vars) as Question;
+  if (instance.type === "numeric" && template.answer !== undefined) {
+    return { ...instance, answer: evaluateFormula(template.answer, vars) };
+  }
+  return instance;
+}
+
+function tryInstantiate(q: Question, seed: number): { ok: true; value: Question } | { ok: false; error: string } {
+  try {
+    return { ok: true, value: instantiateQuestion(q, seed) };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+const TEMPLATE_TRIAL_DRAWS = 20;
+
+function checkTemplate(q: Record<string, unknown>, path: string, add: AddIssue) {
+  const t = q.template;
+  if (!isRecord(t)) {
+    add(path, `Question ${q.id} template must be an object.`);
+    return;
+  }
+  const vp = childPath(path, "variables");
+  if (!t.variables || typeof t.variables !== "object" || Array.isArray(t.variables)) {
+    add(vp, `Question ${q.id} template.variables must be an object.`);
+    return;
+  }
+  let variablesOk = true;
+  for (const [name, v] of Object.entries(t.variables as Record<string, Record<string, unknown>>)) {
+    const where = `Question ${q.id} template variable ${name}`;
+    const fail = (message: string) => {
+      add(childPath(vp, name), message);
+      variablesOk = false;
+    };
+    if (!/^[A-Za-z_]\w*$/.test(name)) fail(`${where} must be a simple identifier.`);
+    if (!v || typeof v !== "object") fail(`${where} must be an object.`);
+    else if ("formula" in v) {
+      if (typeof v.formula !== "string") fail(`${where} formula must be a string.`);
+    } else if ("choices" in v) {
+      if (!Array.isArray(v.choices) || v.choices.length < 1 || v.choices.some((c) => typeof c !== "number")) {
+        fail(`${where} choices must be a non-empty array of numbers.`);
+      }
+    } else {
+      if (typeof v.min !== "number" || typeof v.max !== "number" || v.min > v.max) fail(`${where} needs numeric min <= max, choices, or a formula.`);
+      if (v.step !== undefined && (typeof v.step !== "number" || v.step <= 0)) fail(`${where} step must be positive.`);
+    }
+  }
+  checkFields(t, SHAPES.QuestionTemplate, path, `Question ${q.id} template`, add);
+  if (t.answer !== undefined && typeof t.answer !== "string") variablesOk = false;
+  // A trial draw catches bad formulas, but only means something once the variables themselves are valid.
+  if (!variablesOk) return;
+  const trials: Array<[number, "min" | "max" | undefined]> = [
+    [1, "min"],
+    [1, "max"],
+    ...Array.from({ length: TEMPLATE_TRIAL_DRAWS }, (_, i): [number, undefined] => [i + 1, undefined]),
+  ];
+  for (const [seed, corner] of trials) {
+    try {
+      instantiateQuestion(q as Question, seed, corner);
+    } catch (e) {
+      const draw = corner ? `with every variable at its ${corner === "min" ? "lowest" : "highest"} value` : "on some draws";
+      add(path, `Question ${q.id} template fails ${draw}: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+  }
+}
+
+// Prompt as Markdown, with cloze blanks shown as escaped underscores so they are not read as emphasis.
+function promptMarkdown(q: Question): string {
+  if (q.type !== "cloze") return q.prompt;
+  const numberById = new Map(q.blanks.map((b, i) => [b.id, i + 1]));
+  return q.prompt.replace(CLOZE_TOKEN, (_, id: string) => `\\_\\_\\_\\_(${numberById.get(id.trim()) ?? "?"})`);
+}
+
+// Plain-text prompt for selectors and other places that cannot hold markup.
+function promptText(q: Question): string {
+  return toPlainText(promptMarkdown(q));
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function questionTypeLabel(type: Question["type"]) {
+  if (type === "multi") return "SATA";
+  return type.toUpperCase();
+}
+
+// Credit an answer earns towards the score: its partial-credit fraction where the type has one, else all or nothing.
+function attemptPoints(a: Attempt): number {
+  return a.score ?? (a.isCorrect ? 1 : 0);
+}
+
+function totalPoints(attempts: Attempt[]): number {
+  return attempts.reduce((sum, a) => sum + attemptPoints(a), 0);
+}
+
+// Points with at most two decimals, so 2.75 stays 2.75 and 7 stays 7.
+function formatPoints(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+function percent(n: number, d: number) {
+  if (d <= 0) return 0;
+  return Math.round((n / d) * 100);
+}
+
+function nowMs() {
+  return Date.now();
+}
+
+// Loads the library once this tab holds the tab lock (see tabLock.ts). While another tab has it, this tab shows a
+// banner and waits, taking over when that tab closes or hands the lock over. Each takeover reloads from storage,
+// since the other tab may have changed everything.
+export default function App() {
+  const [phase, setPhase] = useState<
+    | { kind: "loading" }
+    | { kind: "elsewhere"; asked: boolean }
+    | { kind: "ready"; loaded: Awaited<ReturnType<typeof openLibrary>>; generation: number }
+  >({ kind: "loading" });
+
+  useEffect(() => {
+    let lock: TabLock | null = null;
+    let stopped = false;
+    let generation = 0;
+
+    function hold(acquired: TabLock) {
+      if (stopped) return acquired.release();
+      lock = acquired;
+      openLibrary().then((loaded) => {
+        if (lock === acquired) setPhase({ kind: "ready", loaded, generation: ++generation });
+      });
+    }
+
+    function waitForLock() {
+      requestTabLock(true).then((acquired) => acquired && hold(acquired));
+    }
+
+    requestTabLock(false).then((acquired) => {
+      if (acquired) return hold(acquired);
+      if (stopped) return;
+      setPhase({ kind: "elsewhere", asked: false });
+      waitForLock();
+    });
+
+    const unsubscribe = onReleaseRequested(() => {
+      const held = lock;
+      if (!held) return;
+      lock = null;
+      setPhase({ kind: "elsewhere", asked: false });
+      whenWritesSettle().then(() => {
+        held.release();
+        waitForLock();
+      });
+    });
+
+    return () => {
+      stopped = true;
+      unsubscribe();
+      lock?.release();
+      lock = null;
+    };
+  }, []);
+
+  if (phase.kind === "elsewhere") {
+    return (
+      <div className="app">
+        <div className="card">
+          <h2>Open in another tab</h2>
+          <p className="muted">
+            This quiz is already open in another tab or window. Only one of them can be used at a time, so answers are never
+            overwritten. This tab takes over by itself when the other one is closed.
+          </p>
+          <button
+            className="btn"
+            disabled={phase.asked}
+            onClick={() => {
+              askActiveTabToRelease();
+              setPhase({ kind: "elsewhere", asked: true });
+            }}
+          >
+            {phase.asked ? "Waiting for the other tab…" : "Use it here instead"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+  if (phase.kind === "loading") {
+    return (
+      <div className="app">
+        <div className="card muted">Loading your question banks…</div>
+      </div>
+    );
+  }
+  const { loaded } = phase;
+  return (
+    <QuizApp
+      key={phase.generation}
+      initialLibrary={loaded.library}
+      initialRecovered={loaded.recovered}
+      initialStorageError={loaded.error ?? loaded.notice}
+    />
+  );
+}
+
+function QuizApp(props: { initialLibrary: Library; initialRecovered: RecoveryRecord[]; initialStorageError?: string }) {
+  const [library, setLibrary] = useState<Library>(props.initialLibrary);
+  const [recovered, setRecovered] = useState<RecoveryRecord[]>(props.initialRecovered);
+  // A backup file that has been read and is waiting for the learner to confirm the restore.
+  const [restore, setRestore] = useState<{
+    fileName: string;
+    exportedAt: number;
+    library: Library;
+    unreadable: RecoveryRecord[];
+    mode: "merge" | "replace";
+  } | null>(null);
+  const [restoreError, setRestoreError] = useState<string>("");
+  const [storageError, setStorageError] = useState<string>(props.initialStorageError ?? "");
+  const activeBank = library.banks.find((b) => b.id === library.activeBankId) ?? library.banks[0];
+  const session = activeBank.session;
+  const [tab, setTab] = useState<"quiz" | "review" | "library" | "settings">("quiz");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  // A share link made for one of the banks, and a bank someone shared that is waiting to be added.
+  const [sharing, setSharing] = useState<{ bankId: string; url: string } | null>(null);
+  const [incoming, setIncoming] = useState<{ config: AppConfig } | { error: string } | null>(null);
+
+  const [settingsDraft, setSettingsDraft] = useState<string>(() => JSON.stringify(session.config, null, 2));
+  const [draftFormat, setDraftFormat] = useState<"json" | "text">("json");
+  const [settingsError, setSettingsError] = useState<string>("");
+  // Checked as the author types; the deferred copy keeps typing smooth in large drafts.
+  const deferredDraft = useDeferredValue(settingsDraft);
+  const draftCheck = useMemo(() => checkDraft(deferredDraft, draftFormat), [deferredDraft, draftFormat]);
+  const draftErrorCount = draftCheck.issues.filter((i) => i.severity === "error").length;
+  // A spreadsheet being imported: its text and how its columns map to question fields.
+  const [csvImport, setCsvImport] = useState<{ fileName: string; text: string; delimiter: Delimiter; mapping: Array<CsvField | null> } | null>(
+    null,
+  );
+  const [csvNote, setCsvNote] = useState<string>("");
+  const [moodleImport, setMoodleImport] = useState<{ fileName: string; questions: Question[]; report: string[] } | null>(null);
+  const [moodleReport, setMoodleReport] = useState<string[]>([]);
+  const [qtiImport, setQtiImport] = useState<{ fileName: string; title?: string; questions: Question[]; report: string[] } | null>(null);
+  const [qtiReport, setQtiReport] = useState<string[]>([]);
+  const [printSetup, setPrintSetup] = useState<PrintOptions>(() => ({ tags: [], shuffle: false, seed: nowMs() % 100000, answerSpace: true }));
+  const [printing, setPrinting] = useState(false);
+  const [toast, setToast] = useState<string>("");
+
+  const toastTimer = useRef<number | null>(null);
+
+  // The quiz handlers below only know about one session; this routes their updates to the active bank.
+  const setSession = useCallback((update: SetStateAction<SessionState>) => {
+    setLibrary((prev) => ({
+      ...prev,
+      banks: prev.banks.map((b) => {
+        if (b.id !== prev.activeBankId) return b;
+        const next = typeof update === "function" ? update(b.session) : update;
+        const studied = next.history !== b.session.history;
+        return { ...b, session: next, lastStudiedAt: studied ? nowMs() : b.lastStudiedAt };
+      }),
+    }));
+  }, []);
+
+  // Last library state known to be on disk; null after a failed write, so the next save rewrites every bank.
+  const savedLibrary = useRef<Library | null>(props.initialLibrary);
+
+  useEffect(() => {
+    const prev = savedLibrary.current;
+    savedLibrary.current = library;
+    saveLibraryChanges(prev, library)
+      .then(() => setStorageError(""))
+      .catch((e) => {
+        savedLibrary.current = null;
+        setStorageError(describeStorageError(e));
+      });
+  }, [library]);
+
+  // Opening a share link, or pasting one into this tab, offers its bank. The fragment is cleared either way so a
+  // reload does not offer it again.
+  useEffect(() => {
+    function readHash() {
+      if (!hasSharedBank(window.location.hash)) return;
+      readShareLink(window.location.hash).then((result) => {
+        history.replaceState(null, "", window.location.pathname + window.location.search);
+        const checked = result.ok ? assertConfigShape(result.value) : result;
+        setIncoming(checked.ok ? { config: checked.value } : { error: checked.error });
+      });
+    }
+    readHash();
+    window.addEventListener("hashchange", readHash);
+    return () => window.removeEventListener("hashchange", readHash);
+  }, []);
+
+  const questionsById = useMemo(() => {
+    const m = new Map<string, Question>();
+    for (const q of session.config.questions) m.set(q.id, q);
+    return m;
+  }, [session.config.questions]);
+
+  const casesById = useMemo(() => {
+    const m = new Map<string, CaseStudy>();
+    for (const c of session.config.cases ?? []) m.set(c.id, c);
+    return m;
+  }, [session.config.cases]);
+
+  const orderedQuestions = useMemo(() => {
+    return session.progress.order.map((id) => questionsById.get(id)).filter(Boolean) as Question[];
+  }, [session.progress.order, questionsById]);
+
+  const total = orderedQuestions.length;
+  const currentTemplate = orderedQuestions[session.progress.currentIndex];
+  const currentSeed = currentTemplate ? templateSeed(currentTemplate.id, session.progress) : 0;
+  const currentDraw = useMemo(() => {
+    if (!currentTemplate) return undefined;
+    const drawn = tryInstantiate(currentTemplate, currentSeed);
+    return drawn.ok ? { ...drawn, value: resolveQuestionImages(drawn.value, session.config.assets) } : drawn;
+  }, [currentTemplate, currentSeed, session.config.assets]);
+  const current = currentDraw?.ok ? currentDraw.value : undefined;
+  const currentCase = current?.caseId ? casesById.get(current.caseId) : undefined;
+
+  // When the question on screen appeared, or was last answered; the next attempt's timeSpentMs counts from here.
+  const shownAt = useRef(0);
+  useEffect(() => {
+    shownAt.current = nowMs();
+  }, [activeBank.id, current?.id, currentSeed]);
+
+  const answersById = useMemo(() => currentAnswers(session.history, session.progress), [session.history, session.progress]);
+
+  const answeredCount = useMemo(() => Object.keys(answersById).length, [answersById]);
+
+  const correctCount = useMemo(() => {
+    return Object.values(answersById).filter((a) => a.isCorrect).length;
+  }, [answersById]);
+
+  const points = useMemo(() => totalPoints(Object.values(answersById)), [answersById]);
+
+  const incorrectIds = useMemo(() => {
+    return Object.values(answersById).filter((a) => !a.isCorrect).map((a) => a.questionId);
+  }, [answersById]);
+
+  const completionPct = percent(answeredCount, total);
+
+  const csvRows = useMemo(() => (csvImport ? parseDelimited(csvImport.text, csvImport.delimiter) : []), [csvImport]);
+  const csvResult = useMemo(() => (csvImport ? rowsToQuestions(csvRows, csvImport.mapping) : null), [csvImport, csvRows]);
+
+  // Across every session in this bank, not just the current one.
+  const attemptCounts = useMemo(() => {
+    const counts = new Map<string, { total: number; missed: number }>();
+    for (const a of session.history) {
+      const c = counts.get(a.questionId) ?? { total: 0, missed: 0 };
+      counts.set(a.questionId, { total: c.total + 1, missed: c.missed + (a.isCorrect ? 0 : 1) });
+    }
+    return counts;
+  }, [session.history]);
+
+  const caseScores = useMemo(() => {
+    return (session.config.cases ?? []).map((c) => {
+      const childIds = session.progress.order.filter((id) => questionsById.get(id)?.caseId === c.id);
+      const attempts = childIds.map((id) => answersById[id]).filter(Boolean);
+      return {
+        caseStudy: c,
+        firstIndex: session.progress.order.indexOf(childIds[0]),
+        total: childIds.length,
+        answered: attempts.length,
+        correct: attempts.filter((a) => a.isCorrect).length,
+        points: totalPoints(attempts),
+      };
+    });
+  }, [session.config.cases, session.progress.order, answersById, questionsById]);
+
+  function showToast(msg: string) {
+    setToast(msg);
+    if (toastTimer.current) window.clearTimeout(toastTimer.current);
+    toastTimer.current = window.setTimeout(() => setToast(""), 1600);
+  }
+
+  function startNewSessionShuffleMaybe() {
+    setSession((prev) => {
+      const order = buildOrder(prev.config, prev.settings.shuffle);
+      return {
+        ...prev,
+        progress: {
+          currentIndex: 0,
+          order,
+          retryVersionById: {},
+          startedAt: nowMs(),
+          completedAt: undefined,
+        },
+      };
+    });
+  }
+
+  function resetAnswersKeepOrder() {
+    setSession((prev) => ({
+      ...prev,
+      progress: {
+        ...prev.progress,
+        currentIndex: 0,
+        retryVersionById: {},
+        startedAt: nowMs(),
+        completedAt: undefined,
+      },
+    }));
+    showToast("Answers reset");
+    setTab("quiz");
+  }
+
+  function jumpTo(index: number) {
+    setSession((prev) => ({
+      ...prev,
+      progress: {
+        ...prev.progress,
+        currentIndex: Math.min(Math.max(index, 0), Math.max(prev.progress.order.length - 1, 0)),
+      },
+    }));
+  }
+
+  function goPrev() {
+    setSession((prev) => ({
+      ...prev,
+      progress: {
+        ...prev.progress,
+        currentIndex: Math.max(0, prev.progress.currentIndex - 1),
+      },
+    }));
+  }
 
   // Keeps asking missed questions until they are correct.
   // Once a question is correct, it drops out of the loop automatically.
@@ -1799,8 +2981,9 @@ export default function App() {
       const totalLocal = prev.progress.order.length;
       if (totalLocal === 0) return prev;
   
+      const answers = currentAnswers(prev.history, prev.progress);
       const isCorrectById = new Map<string, boolean>();
-      for (const [qid, att] of Object.entries(prev.progress.answersById)) {
+      for (const [qid, att] of Object.entries(answers)) {
         isCorrectById.set(qid, !!att.isCorrect);
       }
   
@@ -1825,17 +3008,13 @@ export default function App() {
       }
   
       const nextQid = prev.progress.order[nextIndex];
-      const nextAttempt = prev.progress.answersById[nextQid];
+      const nextAttempt = answers[nextQid];
   
-      // If we are revisiting because it was incorrect, clear the attempt so it looks fresh
-      let answersById = prev.progress.answersById;
+      // If we are revisiting because it was incorrect, start a new retry so it looks fresh. The missed attempt
+      // stays in the history.
       let retryVersionById = prev.progress.retryVersionById ?? {};
 
       if (nextAttempt && nextAttempt.isCorrect === false) {
-        const copy = { ...prev.progress.answersById };
-        delete copy[nextQid];
-        answersById = copy;
-
         const rv = { ...retryVersionById };
         rv[nextQid] = (rv[nextQid] ?? 0) + 1;
         retryVersionById = rv;
@@ -1846,101 +3025,461 @@ export default function App() {
         progress: {
           ...prev.progress,
           currentIndex: nextIndex,
-          answersById,
           retryVersionById,
         },
       };
     });
   }
+  // Templated questions are graded against the instance drawn for the current retry, so the seed is kept with the attempt.
+  function recordAttempt(attempt: AnswerDraft) {
+    const templated = !!questionsById.get(attempt.questionId)?.template;
+    const recorded: Attempt = {
+      ...attempt,
+      seed: templated ? templateSeed(attempt.questionId, session.progress) : undefined,
+      sessionStartedAt: session.progress.startedAt,
+      retry: session.progress.retryVersionById[attempt.questionId] ?? 0,
+      timeSpentMs: attempt.timestamp - shownAt.current,
+    };
+    shownAt.current = attempt.timestamp;
+    setSession((prev) => ({ ...prev, history: [...prev.history, recorded] }));
+  }
+
   function markMcq(question: McqQuestion, chosen: string) {
     const isCorrect = chosen === question.answerId;
-    const attempt: Attempt = {
+    const attempt: AnswerDraft = {
       questionId: question.id,
       type: "mcq",
       isCorrect,
       chosenAnswerId: chosen,
       timestamp: nowMs(),
     };
-    setSession((prev) => ({
-      ...prev,
-      progress: {
-        ...prev.progress,
-        answersById: { ...prev.progress.answersById, [question.id]: attempt },
-      },
-    }));
+    recordAttempt(attempt);
+  }
+
+  function markMulti(question: MultiQuestion, chosen: string[]) {
+    const { isCorrect, score } = scoreMulti(question, chosen);
+    const attempt: AnswerDraft = {
+      questionId: question.id,
+      type: "multi",
+      isCorrect,
+      chosenAnswerIds: chosen,
+      score,
+      timestamp: nowMs(),
+    };
+    recordAttempt(attempt);
+  }
+
+  function markCloze(question: ClozeQuestion, typed: Record<string, string>) {
+    const { isCorrect, score, blankResults } = scoreCloze(question, typed);
+    const attempt: AnswerDraft = {
+      questionId: question.id,
+      type: "cloze",
+      isCorrect,
+      typedAnswers: typed,
+      blankResults,
+      score,
+      timestamp: nowMs(),
+    };
+    recordAttempt(attempt);
+  }
+
+  function markOrder(question: OrderQuestion, chosen: string[]) {
+    const { isCorrect, score } = scoreOrder(question, chosen);
+    const attempt: AnswerDraft = {
+      questionId: question.id,
+      type: "order",
+      isCorrect,
+      chosenOrder: chosen,
+      score,
+      timestamp: nowMs(),
+    };
+    recordAttempt(attempt);
+  }
 
+  function markNumeric(question: NumericQuestion, raw: string) {
+    const { isCorrect, numericValue } = scoreNumeric(question, raw);
+    const attempt: AnswerDraft = {
+      questionId: question.id,
+      type: "numeric",
+      isCorrect,
+      rawInput: raw,
+      numericValue,
+      timestamp: nowMs(),
+    };
+    recordAttempt(attempt);
+  }
+
+  function markHotspot(question: HotspotQuestion, point: { x: number; y: number }) {
+    const isCorrect = question.regions.some((r) => pointInPolygon(point.x, point.y, r.points));
+    const attempt: AnswerDraft = {
+      questionId: question.id,
+      type: "hotspot",
+      isCorrect,
+      clickPoint: point,
+      timestamp: nowMs(),
+    };
+    recordAttempt(attempt);
   }
 
   function markMatch(question: MatchQuestion, chosenPairs: Array<{ left: string; right: string }>) {
-    const correctPairs = question.pairs;
-    const normalize = (pairs: Array<{ left: string; right: string }>) =>
-      [...pairs].map((p) => `${p.left}=>${p.right}`).sort().join("|");
-    const isCorrect = normalize(chosenPairs) === normalize(correctPairs);
+    const { isCorrect, score } = scoreMatch(question, chosenPairs);
 
-    const attempt: Attempt = {
+    const attempt: AnswerDraft = {
       questionId: question.id,
       type: "match",
       isCorrect,
       chosenPairs,
+      score,
       timestamp: nowMs(),
     };
 
-    setSession((prev) => ({
-      ...prev,
-      progress: {
-        ...prev.progress,
-        answersById: { ...prev.progress.answersById, [question.id]: attempt },
-      },
-    }));
+    recordAttempt(attempt);
+  }
+
+  function copyToClipboard(text: string) {
+    navigator.clipboard
+      .writeText(text)
+      .then(() => showToast("Copied"))
+      .catch(() => showToast("Copy failed"));
+  }
+
+  function applySettingsDraft() {
+    setSettingsError("");
+    const cfg = draftCheck.config;
+    if (!cfg) return;
+
+    setSession((prev) => {
+      const order = buildOrder(cfg, prev.settings.shuffle);
+      return {
+        ...prev,
+        config: cfg,
+        progress: {
+          currentIndex: 0,
+          order,
+          startedAt: nowMs(),
+          retryVersionById: {},
+          completedAt: undefined,
+        },
+      };
+    });
+
+    showToast("Config applied");
+    setTab("quiz");
+  }
+
+  function switchBank(id: string) {
+    setLibrary((prev) => ({ ...prev, activeBankId: id }));
+    setTab("quiz");
+  }
+
+  function addBank(bank: BankEntry) {
+    setLibrary((prev) => ({ activeBankId: bank.id, banks: [...prev.banks, bank] }));
+  }
+
+  function renameBank(id: string, name: string) {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setLibrary((prev) => ({ ...prev, banks: prev.banks.map((b) => (b.id === id ? { ...b, name: trimmed } : b)) }));
+  }
+
+  function duplicateBank(id: string) {
+    const source = library.banks.find((b) => b.id === id);
+    if (!source) return;
+    const copy = createBank(structuredClone(source.session), `${source.name} (copy)`);
+    setLibrary((prev) => ({ ...prev, banks: [...prev.banks, copy] }));
+    showToast("Bank duplicated");
+  }
+
+  function shareBank(bank: BankEntry) {
+    createShareLink(bank.session.config, window.location.href.split("#")[0]).then((url) => setSharing({ bankId: bank.id, url }));
+  }
+
+  function copyShareLink(url: string) {
+    navigator.clipboard.writeText(url).then(
+      () => showToast("Link copied"),
+      () => showToast("Could not copy; select the link and copy it instead"),
+    );
+  }
+
+  function downloadBankFile(bank: BankEntry) {
+    downloadText(`${fileSlug(bank.name)}.json`, JSON.stringify(bank.session.config, null, 2));
+  }
+
+  function openBankFile(file: File | undefined) {
+    if (!file) return;
+    file.text().then((text) => {
+      const parsed = safeJsonParse<unknown>(text);
+      const checked = parsed.ok ? assertConfigShape(parsed.value) : parsed;
+      setIncoming(checked.ok ? { config: checked.value } : { error: `${file.name}: ${checked.error}` });
+    });
+  }
+
+  // A shared bank always becomes a new bank, so the learner's own banks and progress are left as they are.
+  function acceptIncoming(config: AppConfig) {
+    addBank(createBank(buildDefaultSession(config)));
+    setIncoming(null);
+    showToast("Bank added to your library");
+    setTab("quiz");
+  }
+
+  function openCsvFile(file: File | undefined) {
+    if (!file) return;
+    setCsvNote("");
+    file.text().then((text) => {
+      const delimiter = detectDelimiter(text);
+      const header = parseDelimited(text, delimiter)[0] ?? [];
+      setCsvImport({ fileName: file.name, text, delimiter, mapping: guessMapping(header) });
+    });
+  }
+
+  function changeCsvDelimiter(delimiter: Delimiter) {
+    if (!csvImport) return;
+    const header = parseDelimited(csvImport.text, delimiter)[0] ?? [];
+    setCsvImport({ ...csvImport, delimiter, mapping: guessMapping(header) });
+  }
+
+  function createBankFromCsv() {
+    if (!csvImport || !csvResult) return;
+    const checked = assertConfigShape({ title: csvImport.fileName.replace(/\.[^.]+$/, ""), questions: csvResult.questions });
+    if (!checked.ok) {
+      setCsvNote(checked.error);
+      return;
+    }
+    addBank(createBank(buildDefaultSession(checked.value)));
+    setCsvImport(null);
+    showToast("Bank created");
+    setTab("quiz");
+  }
+
+  function exportCsv() {
+    const { text, skipped, dropped } = questionsToCsv(session.config.questions);
+    downloadText(`${fileSlug(session.config.title)}.csv`, text, "text/csv");
+    const notes = [
+      skipped.length ? `Not exported (${skipped.length}): ${skipped.join("; ")}` : "",
+      dropped.length ? `Exported without (${dropped.length}): ${dropped.join("; ")}` : "",
+    ];
+    setCsvNote(notes.filter(Boolean).join(" · "));
+  }
+
+  function openMoodleFile(file: File | undefined) {
+    if (!file) return;
+    setMoodleReport([]);
+    file.text().then((text) => {
+      const isXml = /\.xml$/i.test(file.name) || text.trimStart().startsWith("<");
+      const { value, report } = isXml ? parseMoodleXml(text) : parseGift(text);
+      setMoodleImport({ fileName: file.name, questions: value, report });
+    });
+  }
+
+  function createBankFromMoodle() {
+    if (!moodleImport) return;
+    const checked = assertConfigShape({ title: moodleImport.fileName.replace(/\.[^.]+$/, ""), questions: moodleImport.questions });
+    if (!checked.ok) {
+      setMoodleReport([checked.error]);
+      return;
+    }
+    addBank(createBank(buildDefaultSession(checked.value)));
+    setMoodleImport(null);
+    showToast("Bank created");
+    setTab("quiz");
+  }
+
+  function exportMoodle(format: "gift" | "xml") {
+    const slug = fileSlug(session.config.title);
+    const { value, report } = format === "gift" ? toGift(session.config.questions) : toMoodleXml(session.config.questions);
+    if (format === "gift") downloadText(`${slug}.gift.txt`, value, "text/plain");
+    else downloadText(`${slug}.moodle.xml`, value, "application/xml");
+    setMoodleReport(report);
+  }
+
+  function openQtiFile(file: File | undefined) {
+    if (!file) return;
+    setQtiReport([]);
+    file
+      .arrayBuffer()
+      .then(readQtiPackage)
+      .then((result) => {
+        if (result.ok) setQtiImport({ fileName: file.name, ...result.value });
+        else setQtiReport([result.error]);
+      });
+  }
+
+  function createBankFromQti() {
+    if (!qtiImport) return;
+    const checked = assertConfigShape({ title: qtiImport.title || qtiImport.fileName.replace(/\.[^.]+$/, ""), questions: qtiImport.questions });
+    if (!checked.ok) {
+      setQtiReport([checked.error]);
+      return;
+    }
+    addBank(createBank(buildDefaultSession(checked.value)));
+    setQtiImport(null);
+    showToast("Bank created");
+    setTab("quiz");
+  }
+
+  function exportQti() {
+    const { value, report } = createQtiPackage(session.config);
+    downloadBlob(`${fileSlug(session.config.title)}-qti.zip`, value);
+    setQtiReport(report);
+  }
+
+  function downloadBackup() {
+    downloadText(`quizzer-backup-${new Date().toISOString().slice(0, 10)}.json`, createBackup(library));
+  }
+
+  function openBackupFile(file: File | undefined) {
+    if (!file) return;
+    setRestoreError("");
+    setRestore(null);
+    file.text().then((text) => {
+      const read = readBackup(text);
+      if (!read.ok) {
+        setRestoreError(read.error);
+        return;
+      }
+      const unreadable: RecoveryRecord[] = [];
+      const backup = readLibrary(read.value.library, "Backup", unreadable);
+      if (!backup) {
+        setRestoreError(`The backup has no banks that can be read. ${unreadable[0]?.reason ?? ""}`.trim());
+        return;
+      }
+      setRestore({ fileName: file.name, exportedAt: read.value.exportedAt, library: backup, unreadable, mode: "merge" });
+    });
+  }
 
+  // Restores are written in one go rather than through the incremental save, because a merge can insert
+  // attempts into the middle of a history.
+  function applyRestore() {
+    if (!restore) return;
+    if (restore.mode === "replace" && !window.confirm("Replace every bank and all progress in this browser with the backup?")) return;
+    const next = restore.mode === "replace" ? restore.library : mergeLibraries(library, restore.library);
+    saveLibraryToDb(next)
+      .then(() => {
+        savedLibrary.current = next;
+        setLibrary(next);
+        setRestore(null);
+        showToast("Backup restored");
+      })
+      .catch((e) => setStorageError(describeStorageError(e)));
   }
 
-  function copyToClipboard(text: string) {
-    navigator.clipboard
-      .writeText(text)
-      .then(() => showToast("Copied"))
-      .catch(() => showToast("Copy failed"));
+  function discardRecoveryCopy(record: RecoveryRecord) {
+    if (record.id === undefined || !window.confirm(`Discard the recovered copy of ${record.source}? This cannot be undone.`)) return;
+    deleteRecoveryCopy(record.id)
+      .then(() => setRecovered((prev) => prev.filter((r) => r.id !== record.id)))
+      .catch((e) => setStorageError(describeStorageError(e)));
   }
 
-  function applySettingsJson() {
+  function deleteBank(id: string) {
+    const bank = library.banks.find((b) => b.id === id);
+    if (!bank || !window.confirm(`Delete "${bank.name}" and all of its progress?`)) return;
+    setLibrary((prev) => {
+      const banks = prev.banks.filter((b) => b.id !== id);
+      if (banks.length === 0) {
+        const demo = createBank(buildDefaultSession(sampleConfig));
+        return { activeBankId: demo.id, banks: [demo] };
+      }
+      return { activeBankId: prev.activeBankId === id ? banks[0].id : prev.activeBankId, banks };
+    });
+    showToast("Bank deleted");
+  }
+
+  function saveDraftAsNewBank() {
     setSettingsError("");
-    const parsed = safeJsonParse<any>(settingsDraft);
-    if (!parsed.ok) {
-      setSettingsError(parsed.error);
-      return;
-    }
-    const checked = assertConfigShape(parsed.value);
-    if (!checked.ok) {
-      setSettingsError(checked.error);
+    if (!draftCheck.config) return;
+    addBank(createBank(buildDefaultSession(draftCheck.config)));
+    showToast("Bank created");
+    setTab("quiz");
+  }
+
+  // Packs image files into the draft's assets map as data URLs, so the bank carries them into storage.
+  function addImageAssets(files: FileList | null) {
+    if (!files || files.length === 0) return;
+    const parsed = safeJsonParse<Record<string, unknown>>(settingsDraft);
+    if (!parsed.ok || !parsed.value || typeof parsed.value !== "object") {
+      setSettingsError("Fix the JSON before adding images.");
       return;
     }
+    const draft = parsed.value;
+    const reads = [...files].map(
+      (file) =>
+        new Promise<[string, string]>((resolve, reject) => {
+          const reader = new FileReader();
+          reader.onload = () => resolve([file.name, String(reader.result)]);
+          reader.onerror = () => reject(reader.error);
+          reader.readAsDataURL(file);
+        }),
+    );
+    Promise.all(reads)
+      .then((entries) => {
+        const assets = { ...(draft.assets as Record<string, string> | undefined), ...Object.fromEntries(entries) };
+        setSettingsDraft(JSON.stringify({ ...draft, assets }, null, 2));
+        showToast(`Added ${entries.length} image(s). Use "asset:<file name>" then Apply.`);
+      })
+      .catch(() => setSettingsError("Could not read the selected image files."));
+  }
+
+  useEffect(() => {
+    setSettingsDraft(draftFormat === "json" ? JSON.stringify(session.config, null, 2) : configToText(session.config).text);
+  }, [session.config, draftFormat]);
+
+  const draftEditor = useRef<HTMLTextAreaElement>(null);
+
+  function jumpToIssue(position: SourcePosition) {
+    const editor = draftEditor.current;
+    if (!editor) return;
+    const offset = offsetOf(settingsDraft, position);
+    editor.focus();
+    editor.setSelectionRange(offset, offset);
+    const lineHeight = parseFloat(getComputedStyle(editor).lineHeight) || 18;
+    editor.scrollTop = Math.max(0, (position.line - 3) * lineHeight);
+  }
 
-    const cfg = checked.value;
+  // Questions of the current bank that the text draft cannot show.
+  const draftTextSkipped = useMemo(() => (draftFormat === "text" ? configToText(session.config).skipped : []), [draftFormat, session.config]);
 
+  const { lintDisabled: localLintDisabled, lintIgnored } = session.settings;
+  const lintFindings = useMemo(
+    () => lintBank(session.config, { disabled: localLintDisabled, ignored: lintIgnored }),
+    [session.config, localLintDisabled, lintIgnored],
+  );
+  // Rules the bank file itself switches off; the app cannot switch them back on.
+  const fileLintDisabled = session.config.lint?.disabled ?? [];
+
+  // Switches made here live in the bank's settings, not its config, so they leave the editor draft and the stored
+  // questions alone.
+  function setLintRuleEnabled(rule: LintRuleId, enabled: boolean) {
+    setSession((prev) => {
+      const disabled = (prev.settings.lintDisabled ?? []).filter((r) => r !== rule);
+      if (!enabled) disabled.push(rule);
+      return { ...prev, settings: { ...prev.settings, lintDisabled: disabled.length ? disabled : undefined } };
+    });
+  }
+
+  function ignoreLintFinding(questionId: string, rule: LintRuleId) {
     setSession((prev) => {
-      const baseOrder = cfg.questions.map((q) => q.id);
-      const order = prev.settings.shuffle ? shuffleArray(baseOrder) : baseOrder;
+      const ignored = prev.settings.lintIgnored ?? {};
       return {
         ...prev,
-        config: cfg,
-        progress: {
-          currentIndex: 0,
-          order,
-          answersById: {},
-          startedAt: nowMs(),
-          retryVersionById: {},
-          completedAt: undefined,
-        },
+        settings: { ...prev.settings, lintIgnored: { ...ignored, [questionId]: [...new Set([...(ignored[questionId] ?? []), rule])] } },
       };
     });
+  }
 
-    showToast("Config applied");
-    setTab("quiz");
+  function resetLintIgnores(rule: LintRuleId) {
+    setSession((prev) => {
+      const kept = Object.entries(prev.settings.lintIgnored ?? {})
+        .map(([id, rules]) => [id, rules.filter((r) => r !== rule)] as const)
+        .filter(([, rules]) => rules.length);
+      return { ...prev, settings: { ...prev.settings, lintIgnored: kept.length ? Object.fromEntries(kept) : undefined } };
+    });
   }
 
-  useEffect(() => {
-    setSettingsDraft(JSON.stringify(session.config, null, 2));
-  }, [session.config]);
+  const bankTags = useMemo(() => [...new Set(session.config.questions.flatMap((q) => q.tags ?? []))].sort(), [session.config.questions]);
+  const printCount = useMemo(
+    () => session.config.questions.filter((q) => printSetup.tags.length === 0 || q.tags?.some((t) => printSetup.tags.includes(t))).length,
+    [session.config.questions, printSetup.tags],
+  );
 
   const header = (
     <div className="topbar">
@@ -1956,6 +3495,9 @@ export default function App() {
         <button className={`tab ${tab === "review" ? "active" : ""}`} onClick={() => setTab("review")}>
           Review
         </button>
+        <button className={`tab ${tab === "library" ? "active" : ""}`} onClick={() => setTab("library")}>
+          Library
+        </button>
         <button className={`tab ${tab === "settings" ? "active" : ""}`} onClick={() => setTab("settings")}>
           Settings
         </button>
@@ -1970,7 +3512,7 @@ export default function App() {
           Progress: <b>{answeredCount}</b>/{total} ({completionPct}%)
         </div>
         <div>
-          Score: <b>{correctCount}</b> correct, <b>{answeredCount - correctCount}</b> incorrect
+          Score: <b>{formatPoints(points)}</b>/{answeredCount} points · {correctCount} correct, {answeredCount - correctCount} incorrect
         </div>
       </div>
       <div className="progress-bar">
@@ -2030,16 +3572,71 @@ export default function App() {
     </div>
   );
 
+  if (printing) {
+    return (
+      <div className="app">
+        <Worksheet config={session.config} options={printSetup} onClose={() => setPrinting(false)} />
+      </div>
+    );
+  }
+
   return (
     <div className="app">
       {header}
       {toast ? <div className="toast">{toast}</div> : null}
+      {storageError ? (
+        <div className="storage-error" role="alert">
+          <span>{storageError}</span>
+          <button className="btn ghost" onClick={() => setStorageError("")}>
+            Dismiss
+          </button>
+        </div>
+      ) : null}
+      {incoming ? (
+        "error" in incoming ? (
+          <div className="storage-error" role="alert">
+            <span>This shared bank could not be opened. {incoming.error}</span>
+            <button className="btn ghost" onClick={() => setIncoming(null)}>
+              Dismiss
+            </button>
+          </div>
+        ) : (
+          <div className="share-offer">
+            <span>
+              Someone shared “{incoming.config.title}” with you ({incoming.config.questions.length} questions). Add it as a new bank?
+              Your current banks and progress stay as they are.
+            </span>
+            <div className="settings-actions">
+              <button className="btn" onClick={() => acceptIncoming(incoming.config)}>
+                Add to library
+              </button>
+              <button className="btn ghost" onClick={() => setIncoming(null)}>
+                Not now
+              </button>
+            </div>
+          </div>
+        )
+      ) : null}
 
       {tab === "quiz" ? (
         <div className="panel">
           {progressBar}
 
-          {!current ? (
+          {currentDraw && !currentDraw.ok ? (
+            <div className="card">
+              <h2>Question {currentTemplate?.id} could not be shown</h2>
+              <p className="error">Its template failed on this draw: {currentDraw.error}</p>
+              <p className="muted">Fix the template in Settings. The other questions are not affected.</p>
+              <div className="settings-actions">
+                <button className="btn ghost" onClick={goPrev} disabled={session.progress.currentIndex === 0}>
+                  Previous
+                </button>
+                <button className="btn" onClick={goNext}>
+                  Next
+                </button>
+              </div>
+            </div>
+          ) : !current ? (
             <div className="card">
               <h2>No questions found</h2>
               <p>Go to Settings and paste your JSON.</p>
@@ -2050,15 +3647,22 @@ export default function App() {
               index={session.progress.currentIndex}
               total={total}
               question={current}
-              attempt={session.progress.answersById[current.id]}
+              caseStudy={currentCase && { ...currentCase, image: resolveImage(currentCase.image, session.config.assets) }}
+              caseChildren={current.caseId ? orderedQuestions.filter((q) => q.caseId === current.caseId) : undefined}
+              attempt={answersById[current.id]}
               retryVersion={session.progress.retryVersionById?.[current.id] ?? 0}
               onPrev={goPrev}
               onNext={goNext}
               onJump={jumpTo}
               onAnswerMcq={markMcq}
+              onAnswerMulti={markMulti}
+              onAnswerCloze={markCloze}
+              onAnswerOrder={markOrder}
+              onAnswerNumeric={markNumeric}
+              onAnswerHotspot={markHotspot}
               onAnswerMatch={markMatch}
               showExplanation={session.settings.showExplanations}
-              allAttempts={session.progress.answersById}
+              allAttempts={answersById}
               orderedQuestions={orderedQuestions}
             />
           )}
@@ -2071,6 +3675,32 @@ export default function App() {
         <div className="panel">
           {progressBar}
 
+          {caseScores.length > 0 ? (
+            <div className="card">
+              <h2>Cases</h2>
+              <div className="review-list">
+                {caseScores.map((cs) => (
+                  <button
+                    key={cs.caseStudy.id}
+                    className="review-item"
+                    onClick={() => {
+                      setTab("quiz");
+                      jumpTo(cs.firstIndex);
+                    }}
+                    disabled={cs.total === 0}
+                  >
+                    <div className="review-type">CASE</div>
+                    <div className="review-prompt">{cs.caseStudy.title ?? cs.caseStudy.id}</div>
+                    <div className="review-detail">
+                      <b>{formatPoints(cs.points)}</b>/{cs.total} points ({percent(cs.points, cs.total)}%)
+                      <span className="muted"> · {cs.correct} correct · {cs.answered} answered</span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
           <div className="card">
             <h2>Review incorrect</h2>
             <p>
@@ -2081,9 +3711,13 @@ export default function App() {
             ) : (
               <div className="review-list">
                 {incorrectIds.map((id) => {
-                  const q = questionsById.get(id);
-                  if (!q) return null;
+                  const template = questionsById.get(id);
+                  if (!template) return null;
                   const idx = session.progress.order.indexOf(id);
+                  const att = answersById[id];
+                  const counts = attemptCounts.get(id);
+                  const drawn = att?.seed !== undefined ? tryInstantiate(template, att.seed) : undefined;
+                  const q = drawn?.ok ? drawn.value : template;
                   return (
                     <button
                       key={id}
@@ -2093,128 +3727,1111 @@ export default function App() {
                         jumpTo(idx);
                       }}
                     >
-                      <div className="review-type">{q.type.toUpperCase()}</div>
-                      <div className="review-prompt">{q.prompt}</div>
+                      <div className="review-type">{questionTypeLabel(q.type)}</div>
+                      <RichText className="review-prompt" text={promptMarkdown(q)} />
+                      {q.type === "cloze" && att?.typedAnswers ? (
+                        <div className="review-detail">
+                          {q.blanks.map((b, i) => (
+                            <div key={b.id}>
+                              ({i + 1}) You typed: <b>{att.typedAnswers?.[b.id] || "(blank)"}</b> {att.blankResults?.[b.id] ? "✓" : "✗"}
+                              <span className="muted"> · Accepted: {b.answers.join(", ")}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : null}
+                      {q.type === "numeric" && att ? <div className="review-detail">{numericFeedback(q, att)}</div> : null}
+                      {q.type === "order" && att?.chosenOrder ? (
+                        <div className="review-detail">
+                          <div>
+                            Your order: <b>{att.chosenOrder.map(toPlainText).join(" → ")}</b>
+                          </div>
+                          <div className="muted">Correct order: {q.items.map(toPlainText).join(" → ")}</div>
+                        </div>
+                      ) : null}
+                      {counts ? (
+                        <div className="review-detail muted">
+                          Answered {counts.total} time(s) in this bank, {counts.missed} missed
+                        </div>
+                      ) : null}
                     </button>
                   );
                 })}
               </div>
-            )}
+            )}
+          </div>
+
+          {footerActions}
+        </div>
+      ) : null}
+
+      {tab === "library" ? (
+        <div className="panel">
+          <div className="card">
+            <h2>Question banks</h2>
+            <p className="muted">
+              Each bank keeps its own progress and settings. To add one, open a share link or a bank file, or paste its JSON in
+              Settings and choose “Save as new bank”.
+            </p>
+            <div className="settings-actions">
+              <button className="btn ghost" onClick={() => addBank(createBank(buildDefaultSession(sampleConfig)))}>
+                New demo bank
+              </button>
+              <button className="btn ghost" onClick={() => setTab("settings")}>
+                New bank from JSON
+              </button>
+              <label className="btn ghost">
+                Open bank file…
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  hidden
+                  onChange={(e) => {
+                    openBankFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+
+            <div className="bank-list">
+              {library.banks.map((b) => {
+                const answers = Object.values(currentAnswers(b.session.history, b.session.progress));
+                const isActive = b.id === activeBank.id;
+                return (
+                  <div key={b.id} className={`bank-item ${isActive ? "active" : ""}`}>
+                    <div className="bank-main">
+                      {renaming?.id === b.id ? (
+                        <input
+                          className="cloze-input"
+                          value={renaming.name}
+                          autoFocus
+                          onChange={(e) => setRenaming({ id: b.id, name: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") {
+                              renameBank(b.id, renaming.name);
+                              setRenaming(null);
+                            } else if (e.key === "Escape") {
+                              setRenaming(null);
+                            }
+                          }}
+                          onBlur={() => {
+                            renameBank(b.id, renaming.name);
+                            setRenaming(null);
+                          }}
+                          aria-label="Bank name"
+                        />
+                      ) : (
+                        <div className="bank-name">
+                          {b.name} {isActive ? <span className="pill">Current</span> : null}
+                        </div>
+                      )}
+                      <div className="muted bank-meta">
+                        {b.session.config.questions.length} questions · {answers.length} answered · {answers.filter((a) => a.isCorrect).length} correct ·{" "}
+                        {formatPoints(totalPoints(answers))} points ·
+                        Last studied {b.lastStudiedAt ? new Date(b.lastStudiedAt).toLocaleDateString() : "never"}
+                      </div>
+                    </div>
+                    <div className="bank-actions">
+                      <button className="btn" onClick={() => switchBank(b.id)} disabled={isActive}>
+                        Open
+                      </button>
+                      <button className="btn ghost" onClick={() => setRenaming({ id: b.id, name: b.name })}>
+                        Rename
+                      </button>
+                      <button className="btn ghost" onClick={() => duplicateBank(b.id)}>
+                        Duplicate
+                      </button>
+                      <button className="btn ghost" onClick={() => shareBank(b)}>
+                        Share
+                      </button>
+                      <button className="btn ghost" onClick={() => deleteBank(b.id)}>
+                        Delete
+                      </button>
+                    </div>
+                    {sharing?.bankId === b.id ? (
+                      <div className="share-panel">
+                        {sharing.url.length > SHARE_MAX_LENGTH ? (
+                          <div className="muted">
+                            This bank is too big for a link ({sharing.url.length.toLocaleString()} characters). Send the bank file
+                            instead; the other person opens it with “Open bank file…” in their Library.
+                          </div>
+                        ) : (
+                          <>
+                            <input className="cloze-input" readOnly value={sharing.url} onFocus={(e) => e.target.select()} aria-label="Share link" />
+                            {sharing.url.length > SHARE_WARN_LENGTH ? (
+                              <div className="muted">
+                                This link is {sharing.url.length.toLocaleString()} characters long, and some chat and email apps cut off
+                                long links. If it arrives broken, send the bank file instead.
+                              </div>
+                            ) : null}
+                          </>
+                        )}
+                        <div className="settings-actions">
+                          {sharing.url.length <= SHARE_MAX_LENGTH ? (
+                            <button className="btn" onClick={() => copyShareLink(sharing.url)}>
+                              Copy link
+                            </button>
+                          ) : null}
+                          <button className="btn ghost" onClick={() => downloadBankFile(b)}>
+                            Download bank file
+                          </button>
+                          <button className="btn ghost" onClick={() => setSharing(null)}>
+                            Close
+                          </button>
+                        </div>
+                        <div className="muted">The link holds the questions only, not your answers or progress.</div>
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="card">
+            <h2>Backup and restore</h2>
+            <p className="muted">
+              A backup file holds every bank with its settings, progress and full answer history. Restore it on another
+              computer to carry on where you left off.
+            </p>
+            <div className="settings-actions">
+              <button className="btn" onClick={downloadBackup}>
+                Download backup
+              </button>
+              <label className="btn ghost">
+                Restore from backup…
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  hidden
+                  onChange={(e) => {
+                    openBackupFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+
+            {restoreError ? <div className="error">{restoreError}</div> : null}
+
+            {restore ? (
+              <div className="restore-preview">
+                <div>
+                  <b>{restore.fileName}</b>
+                  <span className="muted"> · made {restore.exportedAt ? new Date(restore.exportedAt).toLocaleString() : "at an unknown time"}</span>
+                </div>
+                <div className="bank-list">
+                  {restore.library.banks.map((b) => {
+                    const existing = library.banks.some((mine) => mine.id === b.id);
+                    return (
+                      <div key={b.id} className="bank-item">
+                        <div className="bank-main">
+                          <div className="bank-name">
+                            {b.name} <span className="pill">{existing ? "Already here" : "New"}</span>
+                          </div>
+                          <div className="muted bank-meta">
+                            {b.session.config.questions.length} questions · {b.session.history.length} attempts recorded · Last studied{" "}
+                            {b.lastStudiedAt ? new Date(b.lastStudiedAt).toLocaleDateString() : "never"}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                {restore.unreadable.map((r) => (
+                  <div key={r.source} className="error">
+                    Skipped {r.source}: {r.reason}
+                  </div>
+                ))}
+
+                <label className="toggle">
+                  <input type="radio" name="restore-mode" checked={restore.mode === "merge"} onChange={() => setRestore({ ...restore, mode: "merge" })} />
+                  Merge with the banks in this browser. Banks found in both keep every attempt and the most recently studied progress.
+                </label>
+                <label className="toggle">
+                  <input
+                    type="radio"
+                    name="restore-mode"
+                    checked={restore.mode === "replace"}
+                    onChange={() => setRestore({ ...restore, mode: "replace" })}
+                  />
+                  Replace everything in this browser with the backup.
+                </label>
+
+                <div className="settings-actions">
+                  <button className="btn" onClick={applyRestore}>
+                    Restore
+                  </button>
+                  <button className="btn ghost" onClick={() => setRestore(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {tab === "settings" ? (
+        <div className="panel">
+          <div className="card">
+            <h2>Paste a question bank</h2>
+            <div className="settings-actions">
+              <label className="toggle">
+                <input type="radio" name="draft-format" checked={draftFormat === "json"} onChange={() => setDraftFormat("json")} />
+                JSON
+              </label>
+              <label className="toggle">
+                <input type="radio" name="draft-format" checked={draftFormat === "text"} onChange={() => setDraftFormat("text")} />
+                Text
+              </label>
+            </div>
+            {draftFormat === "json" ? (
+              <p className="muted">
+                Paste an AppConfig object. It must include: title, questions. Each question must have id, type, prompt, and the
+                required fields per type.
+              </p>
+            ) : (
+              <p className="muted">
+                Number each question, letter its options and star the correct one. Lines starting with “&gt;” are the
+                explanation, and @slide, @tags and @id lines add details. See the reminder below. Covers MCQ, SATA and match
+                questions.
+              </p>
+            )}
+
+            <div className="settings-actions">
+              <button
+                className="btn ghost"
+                onClick={() => setSettingsDraft(draftFormat === "json" ? JSON.stringify(sampleConfig, null, 2) : configToText(sampleConfig).text)}
+              >
+                Load demo
+              </button>
+              <button className="btn ghost" onClick={() => copyToClipboard(settingsDraft)}>
+                {draftFormat === "json" ? "Copy current JSON" : "Copy current text"}
+              </button>
+              <button
+                className="btn ghost"
+                onClick={() => {
+                  if (!window.confirm("Delete every bank and all progress from this browser?")) return;
+                  localStorage.removeItem(LIBRARY_KEY);
+                  localStorage.removeItem(STORAGE_KEY);
+                  clearDb().catch((e) => setStorageError(describeStorageError(e)));
+                  setLibrary(defaultLibrary());
+                  showToast("Local storage cleared");
+                }}
+              >
+                Clear storage
+              </button>
+              {draftFormat === "json" ? (
+                <label className="btn ghost">
+                  Add images
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    hidden
+                    onChange={(e) => {
+                      addImageAssets(e.target.files);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+              ) : null}
+            </div>
+
+            {draftTextSkipped.length > 0 ? (
+              <div className="muted">
+                Not in the text below, and dropped if you apply it to this bank: {draftTextSkipped.join("; ")}
+              </div>
+            ) : null}
+
+            {session.config.assets && Object.keys(session.config.assets).length > 0 ? (
+              <div className="muted">
+                Packaged images: {Object.keys(session.config.assets).map((name) => `${ASSET_PREFIX}${name}`).join(", ")}
+              </div>
+            ) : null}
+
+            <textarea
+              ref={draftEditor}
+              className="textarea"
+              value={settingsDraft}
+              onChange={(e) => setSettingsDraft(e.target.value)}
+              spellCheck={false}
+            />
+
+            {settingsError ? <div className="error">{settingsError}</div> : null}
+
+            {draftCheck.issues.length > 0 ? (
+              <div className="draft-issues">
+                <div className={draftErrorCount > 0 ? "error" : "muted"}>
+                  {draftErrorCount} error(s), {draftCheck.issues.length - draftErrorCount} warning(s)
+                  {draftErrorCount > 0 ? ". Fix the errors to apply or save this draft." : ""}
+                </div>
+                <ul className="import-issues">
+                  {draftCheck.issues.map((issue, i) => {
+                    const { line, column } = issue;
+                    return (
+                      <li key={i} className={`issue ${issue.severity}`}>
+                        {line !== undefined && column !== undefined ? (
+                          <button className="issue-link" onClick={() => jumpToIssue({ line, column })}>
+                            Line {line}:{column}
+                          </button>
+                        ) : null}{" "}
+                        <span className="pill">{issue.severity}</span> {issue.path ? <code>{issue.path}</code> : null} {issue.message}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ) : null}
+
+            <div className="settings-actions">
+              <button className="btn" onClick={applySettingsDraft} disabled={!draftCheck.config}>
+                Apply to current bank
+              </button>
+              <button className="btn ghost" onClick={saveDraftAsNewBank} disabled={!draftCheck.config}>
+                Save as new bank
+              </button>
+            </div>
+
+            <div className="card subtle">
+              <h3>{draftFormat === "json" ? "Format reference" : "Text format reminder"}</h3>
+              {draftFormat === "text" ? (
+                <pre className="code">{QUIZ_TEXT_EXAMPLE}</pre>
+              ) : (
+                <>
+                  <p className="muted">
+                    Editors that understand JSON Schema can check and complete a bank file as you type. Download the schema
+                    and start the file with <code>"$schema": "./{SCHEMA_FILE_NAME}"</code>; the app ignores that key.
+                  </p>
+                  <div className="settings-actions">
+                    <button className="btn ghost" onClick={() => downloadText(SCHEMA_FILE_NAME, createConfigSchema(), "application/schema+json")}>
+                      Download JSON Schema
+                    </button>
+                  </div>
+                  <FormatReference />
+                  <details>
+                    <summary>Example</summary>
+                    <pre className="code">
+                      {`{
+  "title": "My Quiz",
+  "instructions": "Optional",
+  "cases": [
+    {
+      "id": "case1",
+      "title": "Optional case title",
+      "stem": "Shared scenario shown above every question whose caseId is case1",
+      "image": "Optional image URL or data URL"
+    }
+  ],
+  "assets": {
+    "heart.png": "data:image/png;base64,... (added with the Add images button)"
+  },
+  "questions": [
+    {
+      "id": "q1",
+      "type": "mcq",
+      "prompt": "Question text",
+      "slideRef": {
+        "slideNumber": 12,
+        "slideTitle": "Optional slide title",
+        "section": "Optional section",
+        "fileName": "Optional file name"
+      },
+      "options": [
+        { "id": "a", "text": "Option A" },
+        { "id": "b", "text": "Option B" },
+        { "id": "c", "text": "Option C" },
+        { "id": "d", "text": "Option D", "rationale": "Optional: why this option is right or wrong" }
+      ],
+      "answerId": "b",
+      "explanation": "Optional explanation"
+    },
+    {
+      "id": "q2",
+      "type": "match",
+      "caseId": "case1",
+      "prompt": "Match the items",
+      "slideRef": {
+        "slideNumber": 27,
+        "slideTitle": "Optional slide title",
+        "section": "Optional section",
+        "fileName": "Optional file name"
+      },
+      "pairs": [
+        { "left": "Term 1", "right": "Definition 1" },
+        { "left": "Term 2", "right": "Definition 2" },
+        { "left": "Term 3", "right": "Definition 2" }
+      ],
+      "distractors": ["Optional extra right item that matches nothing"],
+      "explanation": "Optional explanation"
+    },
+    {
+      "id": "q3",
+      "type": "multi",
+      "prompt": "Select all that apply",
+      "options": [
+        { "id": "a", "text": "Option A" },
+        { "id": "b", "text": "Option B" },
+        { "id": "c", "text": "Option C" }
+      ],
+      "answerIds": ["a", "c"],
+      "scoring": "partial",
+      "explanation": "Optional explanation"
+    },
+    {
+      "id": "q4",
+      "type": "cloze",
+      "prompt": "Blood glucose below normal is called {{1}}.",
+      "blanks": [
+        { "id": "1", "answers": ["hypoglycemia", "hypoglycaemia"] }
+      ],
+      "matching": { "caseSensitive": false, "collapseWhitespace": true, "ignoreAccents": true, "maxTypos": 1 },
+      "explanation": "Optional explanation. matching is optional and can also be set per blank."
+    },
+    {
+      "id": "q5",
+      "type": "order",
+      "prompt": "Put the steps in order",
+      "items": ["First step", "Second step", "Third step"],
+      "scoring": "partial",
+      "explanation": "Optional explanation. items are listed in the correct order; scoring is exact (default) or partial"
+    },
+    {
+      "id": "q6",
+      "type": "numeric",
+      "prompt": "Order: 0.1 units/kg. Patient weighs 72 kg. How many units?",
+      "answer": 7.2,
+      "tolerance": { "kind": "absolute", "value": 0.1 },
+      "unit": "units",
+      "requireUnit": false,
+      "precision": 1,
+      "explanation": "Optional explanation. tolerance.kind is absolute or relative (0.05 = 5%); units: mcg, mg, g, kg, mL, dL, L, units"
+    },
+    {
+      "id": "q7",
+      "type": "numeric",
+      "prompt": "Order: 0.1 units/kg. Patient weighs [[weight]] kg. How many units?",
+      "template": {
+        "variables": {
+          "weight": { "min": 50, "max": 110, "step": 2 },
+          "dose": { "formula": "round(weight * 0.1, 1)" }
+        },
+        "answer": "dose"
+      },
+      "unit": "units",
+      "explanation": "Any question can have a template. [[expr]] or [[expr|decimals]] is filled in every string; new numbers are drawn on each retry"
+    },
+    {
+      "id": "q8",
+      "type": "hotspot",
+      "prompt": "Click the left ventricle",
+      "image": "asset:heart.png",
+      "imageAlt": "Optional alt text",
+      "regions": [
+        { "id": "lv", "label": "Optional label", "points": [[55, 50], [70, 48], [72, 75], [58, 80]] }
+      ],
+      "explanation": "Points are [x, y] percentages of the image. Any question, option or match pair can also have image, imageAlt, leftImage or rightImage"
+    }
+  ]
+}`}
+                    </pre>
+                  </details>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="card">
+            <h2>Content lint</h2>
+            <p className="muted">
+              Authoring problems in the current bank. Untick a rule to switch it off for this bank, or ignore a single finding.
+              These switches stay on this device; to ship them with the bank, use <code>lint.disabled</code> and a question’s{" "}
+              <code>lintIgnore</code> in the config.
+            </p>
+            {lintFindings.length === 0 ? <div className="muted">No findings.</div> : null}
+            <div className="lint-rules">
+              {LINT_RULES.map((rule) => {
+                const offInFile = fileLintDisabled.includes(rule.id);
+                const enabled = !offInFile && !(localLintDisabled ?? []).includes(rule.id);
+                const found = lintFindings.filter((f) => f.rule === rule.id);
+                const ignoredOn = Object.keys(lintIgnored ?? {}).filter((id) => lintIgnored?.[id].includes(rule.id));
+                return (
+                  <div key={rule.id} className="lint-rule">
+                    <label className="toggle">
+                      <input
+                        type="checkbox"
+                        checked={enabled}
+                        disabled={offInFile}
+                        onChange={(e) => setLintRuleEnabled(rule.id, e.target.checked)}
+                      />
+                      <b>{rule.title}</b> <span className="pill">{enabled ? found.length : offInFile ? "off in the bank file" : "off"}</span>
+                    </label>
+                    <div className="muted">{rule.description}</div>
+                    {found.length > 0 ? (
+                      <ul className="import-issues">
+                        {found.map((f, i) => {
+                          const qid = f.questionId;
+                          const idx = qid === undefined ? -1 : session.progress.order.indexOf(qid);
+                          return (
+                            <li key={i} className="issue warning">
+                              {qid !== undefined && idx >= 0 ? (
+                                <button
+                                  className="issue-link"
+                                  onClick={() => {
+                                    setTab("quiz");
+                                    jumpTo(idx);
+                                  }}
+                                >
+                                  {qid}
+                                </button>
+                              ) : qid !== undefined ? (
+                                <code>{qid}</code>
+                              ) : null}{" "}
+                              {f.message}{" "}
+                              {qid !== undefined ? (
+                                <button className="issue-link muted" onClick={() => ignoreLintFinding(qid, f.rule)}>
+                                  Ignore here
+                                </button>
+                              ) : null}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    ) : null}
+                    {ignoredOn.length > 0 ? (
+                      <div className="muted">
+                        {ignoredOn.length} ignored here ({ignoredOn.join(", ")}){" "}
+                        <button className="issue-link muted" onClick={() => resetLintIgnores(rule.id)}>
+                          Un-ignore
+                        </button>
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="card">
+            <h2>Import from a spreadsheet</h2>
+            <p className="muted">
+              Save the sheet as CSV or TSV with a header row and one question per row. MCQ rows put options in columns A–F and
+              the correct letter in Answer. Match rows set Type to “match” and write each pair as “left =&gt; right” in the
+              option columns; an option without “=&gt;” is a distractor. Separate tags with “;”.
+            </p>
+            <div className="settings-actions">
+              <label className="btn ghost">
+                Choose CSV or TSV file…
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                  hidden
+                  onChange={(e) => {
+                    openCsvFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+              <button className="btn ghost" onClick={exportCsv}>
+                Export this bank as CSV
+              </button>
+            </div>
+
+            {csvNote ? <div className="muted">{csvNote}</div> : null}
+
+            {csvImport && csvResult ? (
+              <div className="import-panel">
+                <div>
+                  <b>{csvImport.fileName}</b>
+                  <span className="muted"> · {Math.max(csvRows.length - 1, 0)} data row(s) · separated by </span>
+                  <select value={csvImport.delimiter} onChange={(e) => changeCsvDelimiter(e.target.value as Delimiter)}>
+                    <option value=",">commas</option>
+                    <option value={"\t"}>tabs</option>
+                    <option value=";">semicolons</option>
+                  </select>
+                </div>
+
+                <div className="rich-table-wrap">
+                  <table className="rich-table">
+                    <thead>
+                      <tr>
+                        <th>Column</th>
+                        <th>Header</th>
+                        <th>First row</th>
+                        <th>Use as</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(csvRows[0] ?? []).map((header, i) => (
+                        <tr key={i}>
+                          <td>{columnName(i)}</td>
+                          <td>{header}</td>
+                          <td className="muted">{truncate(csvRows[1]?.[i] ?? "", 40)}</td>
+                          <td>
+                            <select
+                              value={csvImport.mapping[i] ?? ""}
+                              onChange={(e) => {
+                                const mapping = [...csvImport.mapping];
+                                mapping[i] = (e.target.value || null) as CsvField | null;
+                                setCsvImport({ ...csvImport, mapping });
+                              }}
+                            >
+                              <option value="">(ignore)</option>
+                              {CSV_FIELDS.map((f) => (
+                                <option key={f.field} value={f.field}>
+                                  {f.header}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {csvResult.issues.length > 0 ? (
+                  <div>
+                    <div className="error">Fix these cells in the spreadsheet, or change the mapping above:</div>
+                    <ul className="import-issues">
+                      {csvResult.issues.map((issue, i) => (
+                        <li key={i}>
+                          <b>
+                            {issue.column === undefined
+                              ? `Row ${issue.row}`
+                              : `${cellRef(issue.row, issue.column)} (${csvRows[0]?.[issue.column] || columnName(issue.column)})`}
+                          </b>
+                          : {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
+
+                <div className="muted">
+                  Preview: {csvResult.questions.length} question(s) ready
+                  {csvResult.issues.length > 0 ? ", rows with problems left out" : ""}
+                </div>
+                <ImportPreview questions={csvResult.questions} />
+
+                <div className="settings-actions">
+                  <button
+                    className="btn"
+                    onClick={createBankFromCsv}
+                    disabled={csvResult.issues.length > 0 || csvResult.questions.length === 0}
+                  >
+                    Create bank
+                  </button>
+                  <button className="btn ghost" onClick={() => setCsvImport(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : null}
+          </div>
+
+          <div className="card">
+            <h2>Moodle</h2>
+            <p className="muted">
+              Import or export GIFT and Moodle XML. Multiple-choice, true/false and matching questions carry across with their tags,
+              answer feedback and general feedback; anything else is listed in the conversion report instead.
+            </p>
+            <div className="settings-actions">
+              <label className="btn ghost">
+                Choose GIFT or XML file…
+                <input
+                  type="file"
+                  accept=".gift,.txt,.xml,text/plain,application/xml,text/xml"
+                  hidden
+                  onChange={(e) => {
+                    openMoodleFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+              <button className="btn ghost" onClick={() => exportMoodle("gift")}>
+                Export as GIFT
+              </button>
+              <button className="btn ghost" onClick={() => exportMoodle("xml")}>
+                Export as Moodle XML
+              </button>
+            </div>
+
+            <ConversionReport lines={moodleReport} />
+
+            {moodleImport ? (
+              <div className="import-panel">
+                <div>
+                  <b>{moodleImport.fileName}</b>
+                  <span className="muted"> · {moodleImport.questions.length} question(s) ready</span>
+                </div>
+                <ConversionReport lines={moodleImport.report} />
+
+                <ImportPreview questions={moodleImport.questions} />
+
+                <div className="settings-actions">
+                  <button className="btn" onClick={createBankFromMoodle} disabled={moodleImport.questions.length === 0}>
+                    Create bank
+                  </button>
+                  <button className="btn ghost" onClick={() => setMoodleImport(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : null}
           </div>
 
-          {footerActions}
-        </div>
-      ) : null}
-
-      {tab === "settings" ? (
-        <div className="panel">
           <div className="card">
-            <h2>Paste JSON config</h2>
+            <h2>IMS QTI package</h2>
             <p className="muted">
-              Paste an AppConfig object. It must include: title, questions. Each question must have id, type, prompt, and the
-              required fields per type.
+              Export this bank as a QTI 2.1 content package for learning systems that accept IMS QTI, or import one. MCQs,
+              select-all-that-apply and match questions carry across with their explanation, tags and slide reference.
             </p>
-
             <div className="settings-actions">
-              <button className="btn ghost" onClick={() => setSettingsDraft(JSON.stringify(sampleConfig, null, 2))}>
-                Load demo
-              </button>
-              <button className="btn ghost" onClick={() => copyToClipboard(settingsDraft)}>
-                Copy current JSON
-              </button>
-              <button
-                className="btn ghost"
-                onClick={() => {
-                  localStorage.removeItem(STORAGE_KEY);
-                  setSession(buildDefaultSession(sampleConfig));
-                  showToast("Local storage cleared");
-                }}
-              >
-                Clear storage
+              <label className="btn ghost">
+                Choose QTI package…
+                <input
+                  type="file"
+                  accept=".zip,application/zip"
+                  hidden
+                  onChange={(e) => {
+                    openQtiFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+              <button className="btn ghost" onClick={exportQti}>
+                Export as QTI 2.1 package
               </button>
             </div>
 
-            <textarea className="textarea" value={settingsDraft} onChange={(e) => setSettingsDraft(e.target.value)} spellCheck={false} />
+            <ConversionReport lines={qtiReport} />
 
-            {settingsError ? <div className="error">{settingsError}</div> : null}
+            {qtiImport ? (
+              <div className="import-panel">
+                <div>
+                  <b>{qtiImport.title || qtiImport.fileName}</b>
+                  <span className="muted"> · {qtiImport.questions.length} question(s) ready</span>
+                </div>
+                <ConversionReport lines={qtiImport.report} />
+
+                <ImportPreview questions={qtiImport.questions} />
 
+                <div className="settings-actions">
+                  <button className="btn" onClick={createBankFromQti} disabled={qtiImport.questions.length === 0}>
+                    Create bank
+                  </button>
+                  <button className="btn ghost" onClick={() => setQtiImport(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : null}
+          </div>
+
+          <div className="card">
+            <h2>Print worksheet</h2>
+            <p className="muted">
+              Print this bank for a paper session, with an answer key on a separate page that includes explanations and slide
+              references.
+            </p>
+            {bankTags.length > 0 ? (
+              <div className="settings-actions">
+                <span className="muted">Only tags:</span>
+                {bankTags.map((t) => (
+                  <label key={t} className="toggle">
+                    <input
+                      type="checkbox"
+                      checked={printSetup.tags.includes(t)}
+                      onChange={(e) => {
+                        const tags = e.target.checked ? [...printSetup.tags, t] : printSetup.tags.filter((x) => x !== t);
+                        setPrintSetup({ ...printSetup, tags });
+                      }}
+                    />
+                    {t}
+                  </label>
+                ))}
+              </div>
+            ) : null}
+            <div className="settings-actions">
+              <label className="toggle">
+                <input type="checkbox" checked={printSetup.shuffle} onChange={(e) => setPrintSetup({ ...printSetup, shuffle: e.target.checked })} />
+                Shuffle questions and options
+              </label>
+              <label className="toggle">
+                Seed
+                <input
+                  type="number"
+                  value={printSetup.seed}
+                  disabled={!printSetup.shuffle}
+                  onChange={(e) => setPrintSetup({ ...printSetup, seed: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                />
+              </label>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={printSetup.answerSpace}
+                  onChange={(e) => setPrintSetup({ ...printSetup, answerSpace: e.target.checked })}
+                />
+                Leave room for answers
+              </label>
+            </div>
             <div className="settings-actions">
-              <button className="btn" onClick={applySettingsJson}>
-                Apply
+              <button className="btn" onClick={() => setPrinting(true)} disabled={printCount === 0}>
+                Open print view
               </button>
+              <span className="muted">{printCount} question(s)</span>
             </div>
+          </div>
 
-            <div className="card subtle">
-              <h3>Schema reminder</h3>
-              <pre className="code">
-              <pre className="code">
-              {`{
-  "title": "My Quiz",
-  "instructions": "Optional",
-  "questions": [
-    {
-      "id": "q1",
-      "type": "mcq",
-      "prompt": "Question text",
-      "slideRef": {
-        "slideNumber": 12,
-        "slideTitle": "Optional slide title",
-        "section": "Optional section",
-        "fileName": "Optional file name"
-      },
-      "options": [
-        { "id": "a", "text": "Option A" },
-        { "id": "b", "text": "Option B" },
-        { "id": "c", "text": "Option C" },
-        { "id": "d", "text": "Option D" }
-      ],
-      "answerId": "b",
-      "explanation": "Optional explanation"
-    },
-    {
-      "id": "q2",
-      "type": "match",
-      "prompt": "Match the items",
-      "slideRef": {
-        "slideNumber": 27,
-        "slideTitle": "Optional slide title",
-        "section": "Optional section",
-        "fileName": "Optional file name"
-      },
-      "pairs": [
-        { "left": "Term 1", "right": "Definition 1" },
-        { "left": "Term 2", "right": "Definition 2" }
-      ],
-      "explanation": "Optional explanation"
-    }
-  ]
-}`}
-</pre>
-              </pre>
+          {recovered.length > 0 ? (
+            <div className="card">
+              <h2>Recovered data</h2>
+              <p className="muted">
+                These saved items could not be read when the app loaded, so they were set aside instead of being deleted.
+                Download one to repair it by hand, or discard it.
+              </p>
+              <div className="bank-list">
+                {recovered.map((r) => (
+                  <div key={r.id} className="bank-item">
+                    <div className="bank-main">
+                      <div className="bank-name">{r.source}</div>
+                      <div className="muted bank-meta">
+                        Set aside {new Date(r.savedAt).toLocaleString()} · {r.reason}
+                      </div>
+                    </div>
+                    <div className="bank-actions">
+                      <button className="btn ghost" onClick={() => downloadText(`quizzer-recovered-${r.id}.json`, r.data)}>
+                        Download
+                      </button>
+                      <button className="btn ghost" onClick={() => discardRecoveryCopy(r)}>
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
             </div>
-          </div>
+          ) : null}
         </div>
       ) : null}
     </div>
   );
 }
 
+// What an import or export could not carry across, one line per construct.
+// Every object in the bank format and its fields, from the same description the validator and the schema use.
+function FormatReference() {
+  const typeOnly = (t: Question["type"]): Shape => ({
+    description: QUESTION_SHAPES[t].description,
+    fields: Object.fromEntries(Object.entries(QUESTION_SHAPES[t].fields).filter(([key, f]) => key !== "type" && QUESTION_BASE_SHAPE.fields[key] !== f)),
+  });
+  const sections: Array<[string, Shape]> = [
+    ["AppConfig", SHAPES.AppConfig],
+    ["Question", QUESTION_BASE_SHAPE],
+    ...QUESTION_TYPES.map((t): [string, Shape] => [`Question of type "${t}"`, typeOnly(t)]),
+    ...Object.entries(SHAPES).filter(([name]) => name !== "AppConfig"),
+  ];
+  return (
+    <div className="format-reference">
+      {sections.map(([name, shape]) => (
+        <details key={name}>
+          <summary>
+            <b>{name}</b> <span className="muted">{shape.description}</span>
+          </summary>
+          <table className="format-table">
+            <tbody>
+              {Object.entries(shape.fields).map(([key, field]) => (
+                <tr key={key}>
+                  <td>
+                    <code>{key}</code>
+                    {field.required ? " (required)" : ""}
+                  </td>
+                  <td>{describeType(field.type)}</td>
+                  <td className="muted">{field.description}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+function ConversionReport(props: { lines: string[] }) {
+  if (props.lines.length === 0) return null;
+  return (
+    <div>
+      <div className="muted">Conversion report:</div>
+      <ul className="import-issues">
+        {props.lines.map((line, i) => (
+          <li key={i}>{line}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// The first questions of a file about to become a bank, so the learner can check the conversion before creating it.
+function ImportPreview(props: { questions: Question[] }) {
+  const { questions } = props;
+  return (
+    <>
+      <ol className="import-preview">
+        {questions.slice(0, 20).map((q) => (
+          <li key={q.id}>
+            <span className="pill">{questionTypeLabel(q.type)}</span> {truncate(promptText(q), 90)}
+            {q.type === "mcq" ? (
+              <span className="muted"> · Answer: {truncate(toPlainText(q.options.find((o) => o.id === q.answerId)?.text ?? ""), 40)}</span>
+            ) : null}
+            {q.type === "multi" ? <span className="muted"> · {q.answerIds.length} right options</span> : null}
+            {q.type === "match" ? <span className="muted"> · {q.pairs.length} pairs</span> : null}
+          </li>
+        ))}
+      </ol>
+      {questions.length > 20 ? <div className="muted">…and {questions.length - 20} more</div> : null}
+    </>
+  );
+}
+
+// Paper version of a bank: the questions, then an answer key on a new page. The toolbar is hidden in print.
+function Worksheet(props: { config: AppConfig; options: PrintOptions; onClose: () => void }) {
+  const { config, options, onClose } = props;
+  const { items, skipped } = useMemo(() => buildWorksheet(config, options), [config, options]);
+
+  return (
+    <div className="worksheet-page">
+      <div className="worksheet-toolbar">
+        <button className="btn" onClick={() => window.print()}>
+          Print
+        </button>
+        <button className="btn ghost" onClick={onClose}>
+          Back
+        </button>
+        <span className="muted">
+          {items.length} question(s){options.shuffle ? ` · shuffled with seed ${options.seed}` : ""}
+        </span>
+        {skipped.length > 0 ? <div className="error">Left out, their templates could not be drawn: {skipped.join("; ")}</div> : null}
+      </div>
+
+      <div className="worksheet">
+        <h1>{config.title}</h1>
+        <div className="ws-name">Name: ______________________ Date: ____________</div>
+        {config.instructions ? <p>{config.instructions}</p> : null}
+
+        {items.map((item) => {
+          const q = item.question;
+          return (
+            <div key={q.id}>
+              {item.caseStudy ? (
+                <div className="ws-case">
+                  <b>{item.caseStudy.title ?? "Case"}</b>
+                  {item.caseStudy.image ? <img className="q-image" src={item.caseStudy.image} alt={item.caseStudy.imageAlt ?? ""} /> : null}
+                  <RichText text={item.caseStudy.stem} />
+                </div>
+              ) : null}
+
+              <section className="ws-question">
+                <div className="ws-number">{item.number}.</div>
+                <div>
+                  <RichText text={promptMarkdown(q)} />
+                  {q.image ? <img className="q-image" src={q.image} alt={q.imageAlt ?? ""} /> : null}
+
+                  {q.type === "multi" ? <div className="ws-hint">Select all that apply.</div> : null}
+                  {item.options ? (
+                    <ol className="ws-options">
+                      {item.options.map((o, i) => (
+                        <li key={o.id}>
+                          <span className="ws-letter">{q.type === "multi" ? "☐" : ""} {letter(i)}.</span> <RichText inline text={o.text} />
+                          {o.image ? <img className="choice-image" src={o.image} alt={o.imageAlt ?? ""} /> : null}
+                        </li>
+                      ))}
+                    </ol>
+                  ) : null}
+
+                  {item.lefts && item.rights ? (
+                    <table className="ws-match">
+                      <tbody>
+                        {Array.from({ length: Math.max(item.lefts.length, item.rights.length) }, (_, i) => {
+                          const left = item.lefts?.[i];
+                          const right = item.rights?.[i];
+                          return (
+                            <tr key={i}>
+                              <td>{left !== undefined ? <>____ {i + 1}. <RichText inline text={left} /></> : null}</td>
+                              <td>{right !== undefined ? <>{letter(i)}. <RichText inline text={right} /></> : null}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  ) : null}
+
+                  {q.type === "order" && item.items ? (
+                    <>
+                      <div className="ws-hint">Put these in order.</div>
+                      <ol className="ws-options">
+                        {item.items.map((it, i) => (
+                          <li key={it}>
+                            <span className="ws-letter">{letter(i)}.</span> <RichText inline text={it} />
+                          </li>
+                        ))}
+                      </ol>
+                    </>
+                  ) : null}
+
+                  {q.type === "hotspot" ? <div className="ws-hint">Mark your answer on the image.</div> : null}
+                  {q.type === "numeric" && q.unit ? <div className="ws-hint">Answer in {lookupUnit(q.unit)?.label ?? q.unit}.</div> : null}
+
+                  {options.answerSpace ? <div className={`ws-space ${q.type === "cloze" || q.type === "numeric" ? "tall" : ""}`}>Answer:</div> : null}
+                </div>
+              </section>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="worksheet worksheet-key">
+        <h2>Answer key · {config.title}</h2>
+        {items.map((item) => (
+          <section key={item.question.id} className="ws-question">
+            <div className="ws-number">{item.number}.</div>
+            <div>
+              <b>{printedAnswer(item)}</b>
+              {item.question.explanation ? <RichText className="ws-explanation" text={item.question.explanation} /> : null}
+              {item.question.slideRef ? <div className="ws-citation">{slideCitation(item.question.slideRef)}</div> : null}
+            </div>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function QuizCard(props: {
   index: number;
   total: number;
   question: Question;
+  caseStudy?: CaseStudy;
+  caseChildren?: Question[];
   attempt?: Attempt;
   retryVersion: number;
   onPrev: () => void;
   onNext: () => void;
   onJump: (i: number) => void;
   onAnswerMcq: (q: McqQuestion, chosen: string) => void;
+  onAnswerMulti: (q: MultiQuestion, chosen: string[]) => void;
+  onAnswerCloze: (q: ClozeQuestion, typed: Record<string, string>) => void;
+  onAnswerOrder: (q: OrderQuestion, chosen: string[]) => void;
+  onAnswerNumeric: (q: NumericQuestion, raw: string) => void;
+  onAnswerHotspot: (q: HotspotQuestion, point: { x: number; y: number }) => void;
   onAnswerMatch: (q: MatchQuestion, chosenPairs: Array<{ left: string; right: string }>) => void;
   showExplanation: boolean;
   allAttempts: Record<string, Attempt>;
   orderedQuestions: Question[];
 }) {
-  const { index, total, question, attempt, retryVersion, onPrev, onNext, onJump, onAnswerMcq, onAnswerMatch, showExplanation, allAttempts, orderedQuestions } = props;
+  const { index, total, question, caseStudy, caseChildren, attempt, retryVersion, onPrev, onNext, onJump, onAnswerMcq, onAnswerMulti, onAnswerCloze, onAnswerOrder, onAnswerNumeric, onAnswerHotspot, onAnswerMatch, showExplanation, allAttempts, orderedQuestions } = props;
 
   return (
     <div className="card">
@@ -2231,7 +4848,7 @@ function QuizCard(props: {
               const status = !a ? " " : a.isCorrect ? "✓" : "✗";
               return (
                 <option key={q.id} value={i}>
-                  {i + 1}. {q.type.toUpperCase()} {status}
+                  {i + 1}. {questionTypeLabel(q.type)} {status} {truncate(promptText(q), 48)}
                 </option>
               );
             })}
@@ -2239,7 +4856,24 @@ function QuizCard(props: {
         </div>
       </div>
 
-      <h2 className="prompt">{question.prompt}</h2>
+      {caseStudy ? (
+        <div className="case-stem">
+          <div className="case-title">
+            {caseStudy.title ?? "Case"}
+            {caseChildren ? (
+              <span className="muted">
+                {" "}
+                · question {caseChildren.findIndex((q) => q.id === question.id) + 1} of {caseChildren.length}
+              </span>
+            ) : null}
+          </div>
+          {caseStudy.image ? <img className="case-image" src={caseStudy.image} alt={caseStudy.imageAlt ?? ""} /> : null}
+          <RichText className="case-text" text={caseStudy.stem} />
+        </div>
+      ) : null}
+
+      <RichText className="prompt" text={promptMarkdown(question)} />
+      {question.image && question.type !== "hotspot" ? <img className="q-image" src={question.image} alt={question.imageAlt ?? ""} /> : null}
       {question.slideRef && (
   <div className="slide-ref">
     📘 Slide {question.slideRef.slideNumber}
@@ -2249,17 +4883,53 @@ function QuizCard(props: {
 )}
 
       {question.type === "mcq" ? (
-        <McqView question={question} attempt={attempt} retryVersion={retryVersion} onChoose={(id) => onAnswerMcq(question, id)} />
+        <McqView
+          question={question}
+          attempt={attempt}
+          retryVersion={retryVersion}
+          showRationales={showExplanation}
+          onChoose={(id) => onAnswerMcq(question, id)}
+        />
+      ) : question.type === "multi" ? (
+        <MultiView
+          key={retryVersion}
+          question={question}
+          attempt={attempt}
+          retryVersion={retryVersion}
+          onSubmit={(ids) => onAnswerMulti(question, ids)}
+        />
+      ) : question.type === "cloze" ? (
+        <ClozeView key={retryVersion} question={question} attempt={attempt} onSubmit={(typed) => onAnswerCloze(question, typed)} />
+      ) : question.type === "order" ? (
+        <OrderView
+          key={retryVersion}
+          question={question}
+          attempt={attempt}
+          retryVersion={retryVersion}
+          onSubmit={(chosen) => onAnswerOrder(question, chosen)}
+        />
+      ) : question.type === "numeric" ? (
+        <NumericView key={retryVersion} question={question} attempt={attempt} onSubmit={(raw) => onAnswerNumeric(question, raw)} />
+      ) : question.type === "hotspot" ? (
+        <HotspotView question={question} attempt={attempt} onSubmit={(point) => onAnswerHotspot(question, point)} />
       ) : (
         <MatchView question={question} attempt={attempt} onSubmit={(pairs) => onAnswerMatch(question, pairs)} />
       )}
 
-      {attempt ? <div className={`result ${attempt.isCorrect ? "good" : "bad"}`}>{attempt.isCorrect ? "Correct" : "Incorrect"}</div> : null}
+      {attempt ? (
+        <div className={`result ${attempt.isCorrect ? "good" : "bad"}`}>
+          {attempt.isCorrect
+            ? "Correct"
+            : attempt.score
+              ? `Partially correct (${Math.round(attempt.score * 100)}% credit)`
+              : "Incorrect"}
+        </div>
+      ) : null}
 
       {attempt && showExplanation && question.explanation ? (
         <div className="explain">
           <div className="explain-title">Explanation</div>
-          <div className="explain-body">{question.explanation}</div>
+          <RichText className="explain-body" text={question.explanation} />
         </div>
       ) : null}
 
@@ -2279,9 +4949,10 @@ function McqView(props: {
   question: McqQuestion;
   attempt?: Attempt;
   retryVersion: number;
+  showRationales: boolean;
   onChoose: (id: string) => void;
 }) {
-  const { question, attempt, retryVersion, onChoose } = props;
+  const { question, attempt, retryVersion, showRationales, onChoose } = props;
   const shuffledOptions = useMemo(() => {
     // If already answered correctly, keep original order
     if (attempt?.isCorrect) return question.options;
@@ -2310,12 +4981,347 @@ function McqView(props: {
 >
             <div className="choice-left">
               <div className="choice-id">{o.id.toUpperCase()}</div>
-              <div className="choice-text">{o.text}</div>
+              <div className="choice-text">
+                {o.image ? <img className="choice-image" src={o.image} alt={o.imageAlt ?? ""} /> : null}
+                <RichText inline text={o.text} />
+              </div>
             </div>
             {showMark ? <div className="choice-mark">{correct ? "✓" : chosen ? "✗" : ""}</div> : null}
           </button>
         );
       })}
+
+      {attempt && showRationales ? <McqRationales question={question} chosenId={attempt.chosenAnswerId} /> : null}
+    </div>
+  );
+}
+
+// The chosen option's rationale next to the correct one's, so a wrong pick explains itself.
+function McqRationales(props: { question: McqQuestion; chosenId?: string }) {
+  const { question, chosenId } = props;
+  const chosen = question.options.find((o) => o.id === chosenId);
+  const correct = question.options.find((o) => o.id === question.answerId);
+  const rows = (chosen && chosen.id !== correct?.id ? [chosen, correct] : [correct]).filter(
+    (o): o is McqOption => !!o?.rationale,
+  );
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="rationales">
+      {rows.map((o) => (
+        <div key={o.id} className={`rationale ${o.id === question.answerId ? "good" : "bad"}`}>
+          <div className="explain-title">
+            {o.id === question.answerId ? "Correct answer" : "Your answer"} ({o.id.toUpperCase()})
+          </div>
+          <RichText className="explain-body" text={o.rationale!} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function MultiView(props: {
+  question: MultiQuestion;
+  attempt?: Attempt;
+  retryVersion: number;
+  onSubmit: (ids: string[]) => void;
+}) {
+  const { question, attempt, retryVersion, onSubmit } = props;
+  const shuffledOptions = useMemo(() => {
+    if (attempt?.isCorrect) return question.options;
+    return shuffleArray(question.options, retryVersion + 1);
+  }, [question.options, attempt, retryVersion]);
+
+  const [ticked, setTicked] = useState<string[]>(() => attempt?.chosenAnswerIds ?? []);
+
+  const locked = attempt?.isCorrect === true;
+  // Marks describe the submitted selection, so hide them as soon as the learner changes it.
+  const submitted = attempt?.chosenAnswerIds ?? [];
+  const showMark = !!attempt && submitted.length === ticked.length && submitted.every((id) => ticked.includes(id));
+
+  function toggle(id: string) {
+    setTicked((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  }
+
+  return (
+    <div>
+      <div className="choices">
+        {shuffledOptions.map((o) => {
+          const chosen = ticked.includes(o.id);
+          const correct = question.answerIds.includes(o.id);
+
+          const cls = ["choice", chosen ? "chosen" : "", showMark && correct ? "correct" : "", showMark && chosen && !correct ? "wrong" : ""]
+            .filter(Boolean)
+            .join(" ");
+
+          return (
+            <button key={o.id} className={cls} onClick={() => toggle(o.id)} disabled={locked} aria-pressed={chosen}>
+              <div className="choice-left">
+                <div className="choice-id">{chosen ? "☑" : "☐"}</div>
+                <div className="choice-text">
+                  {o.image ? <img className="choice-image" src={o.image} alt={o.imageAlt ?? ""} /> : null}
+                  <RichText inline text={o.text} />
+                </div>
+              </div>
+              {showMark ? <div className="choice-mark">{correct ? "✓" : chosen ? "✗" : ""}</div> : null}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="match-actions">
+        <button className="btn" onClick={() => onSubmit(ticked)} disabled={locked || ticked.length === 0}>
+          Submit answer
+        </button>
+        {!locked ? <div className="muted">Select all that apply, then submit.</div> : null}
+      </div>
+    </div>
+  );
+}
+
+function ClozeView(props: {
+  question: ClozeQuestion;
+  attempt?: Attempt;
+  onSubmit: (typed: Record<string, string>) => void;
+}) {
+  const { question, attempt, onSubmit } = props;
+
+  const [typed, setTyped] = useState<Record<string, string>>(() => {
+    const init: Record<string, string> = {};
+    for (const b of question.blanks) init[b.id] = attempt?.typedAnswers?.[b.id] ?? "";
+    return init;
+  });
+
+  // A wrong attempt shows the accepted answers, so the blanks stay closed until the question comes round again
+  // as a fresh retry.
+  const locked = !!attempt;
+  const canSubmit = !locked && question.blanks.every((b) => typed[b.id].trim());
+
+  function submit() {
+    if (!canSubmit) return;
+    onSubmit(typed);
+  }
+
+  return (
+    <div className="cloze">
+      {question.blanks.map((b, i) => {
+        // Only mark a blank while it still holds the text that was graded.
+        const graded = !!attempt && attempt.typedAnswers?.[b.id] === typed[b.id];
+        const ok = graded && attempt?.blankResults?.[b.id] === true;
+        return (
+          <div key={b.id} className="cloze-row">
+            <label className="cloze-label" htmlFor={`blank-${question.id}-${b.id}`}>
+              Blank {i + 1}
+            </label>
+            <input
+              id={`blank-${question.id}-${b.id}`}
+              className={`cloze-input ${graded ? (ok ? "ok" : "no") : ""}`}
+              value={typed[b.id]}
+              onChange={(e) => {
+                const v = e.target.value;
+                setTyped((prev) => ({ ...prev, [b.id]: v }));
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") submit();
+              }}
+              disabled={locked}
+              autoComplete="off"
+              spellCheck={false}
+            />
+            <div className="match-mark">{graded ? (ok ? "✓" : "✗") : ""}</div>
+            {attempt && !attempt.isCorrect && graded && !ok ? (
+              <div className="cloze-accepted muted">Accepted: {b.answers.join(", ")}</div>
+            ) : null}
+          </div>
+        );
+      })}
+
+      <div className="match-actions">
+        <button className="btn" onClick={submit} disabled={!canSubmit}>
+          Submit answer
+        </button>
+        {!locked ? <div className="muted">Fill in every blank, then submit.</div> : null}
+      </div>
+    </div>
+  );
+}
+
+function OrderView(props: {
+  question: OrderQuestion;
+  attempt?: Attempt;
+  retryVersion: number;
+  onSubmit: (chosen: string[]) => void;
+}) {
+  const { question, attempt, retryVersion, onSubmit } = props;
+
+  const [items, setItems] = useState<string[]>(() => {
+    if (attempt?.chosenOrder) return attempt.chosenOrder;
+    const shuffled = shuffleArray(question.items, retryVersion + 1);
+    // Never start from the answer: rotate once if the shuffle happened to land on it.
+    const solved = shuffled.every((item, i) => item === question.items[i]);
+    return solved ? [...shuffled.slice(1), shuffled[0]] : shuffled;
+  });
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const locked = attempt?.isCorrect === true;
+  const graded = !!attempt && attempt.chosenOrder?.every((item, i) => item === items[i]) === true;
+
+  function move(from: number, to: number) {
+    if (locked || to < 0 || to >= items.length || from === to) return;
+    setItems((prev) => {
+      const next = [...prev];
+      const [item] = next.splice(from, 1);
+      next.splice(to, 0, item);
+      return next;
+    });
+  }
+
+  return (
+    <div className="order">
+      <ol className="order-list">
+        {items.map((item, i) => {
+          const ok = graded && question.items[i] === item;
+          return (
+            <li
+              key={item}
+              className={`order-item ${graded ? (ok ? "ok" : "no") : ""} ${dragIndex === i ? "dragging" : ""}`}
+              draggable={!locked}
+              tabIndex={locked ? -1 : 0}
+              aria-label={`${toPlainText(item)}, position ${i + 1} of ${items.length}. Use Alt plus arrow keys to move.`}
+              onDragStart={() => setDragIndex(i)}
+              onDragEnd={() => setDragIndex(null)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragIndex !== null) move(dragIndex, i);
+                setDragIndex(null);
+              }}
+              onKeyDown={(e) => {
+                if (!e.altKey) return;
+                if (e.key === "ArrowUp") {
+                  e.preventDefault();
+                  move(i, i - 1);
+                } else if (e.key === "ArrowDown") {
+                  e.preventDefault();
+                  move(i, i + 1);
+                }
+              }}
+            >
+              <div className="choice-id">{i + 1}</div>
+              <div className="order-text">
+                <RichText inline text={item} />
+              </div>
+              <div className="order-buttons">
+                <button className="btn ghost" onClick={() => move(i, i - 1)} disabled={locked || i === 0} aria-label="Move up">
+                  ↑
+                </button>
+                <button className="btn ghost" onClick={() => move(i, i + 1)} disabled={locked || i === items.length - 1} aria-label="Move down">
+                  ↓
+                </button>
+              </div>
+              <div className="match-mark">{graded ? (ok ? "✓" : "✗") : ""}</div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="match-actions">
+        <button className="btn" onClick={() => onSubmit(items)} disabled={locked}>
+          Submit order
+        </button>
+        {!locked ? <div className="muted">Drag items, use the arrows, or focus an item and press Alt+↑/↓.</div> : null}
+      </div>
+    </div>
+  );
+}
+
+function NumericView(props: {
+  question: NumericQuestion;
+  attempt?: Attempt;
+  onSubmit: (raw: string) => void;
+}) {
+  const { question, attempt, onSubmit } = props;
+  const [raw, setRaw] = useState<string>(() => attempt?.rawInput ?? "");
+
+  const locked = attempt?.isCorrect === true;
+  const graded = !!attempt && attempt.rawInput === raw;
+  const unitLabel = question.unit ? lookupUnit(question.unit)?.label ?? question.unit : "";
+
+  const hint = [
+    question.unit ? (question.requireUnit ? `Include a unit (answer in ${unitLabel} or a convertible unit).` : `Answer in ${unitLabel}.`) : "",
+    question.precision !== undefined
+      ? `Round to ${question.precision === 0 ? "a whole number" : `${question.precision} decimal place${question.precision === 1 ? "" : "s"}`}.`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  function submit() {
+    if (locked || !raw.trim()) return;
+    onSubmit(raw);
+  }
+
+  return (
+    <div className="numeric">
+      {hint ? <div className="muted numeric-hint">{hint}</div> : null}
+      <div className="numeric-row">
+        <input
+          className={`cloze-input ${graded ? (attempt?.isCorrect ? "ok" : "no") : ""}`}
+          value={raw}
+          onChange={(e) => setRaw(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submit();
+          }}
+          inputMode="decimal"
+          autoComplete="off"
+          disabled={locked}
+          aria-label="Your answer"
+        />
+        {question.unit && !question.requireUnit ? <div className="numeric-unit">{unitLabel}</div> : null}
+        <button className="btn" onClick={submit} disabled={locked || !raw.trim()}>
+          Submit answer
+        </button>
+      </div>
+      {attempt && graded ? <div className="muted numeric-feedback">{numericFeedback(question, attempt)}</div> : null}
+    </div>
+  );
+}
+
+function HotspotView(props: {
+  question: HotspotQuestion;
+  attempt?: Attempt;
+  onSubmit: (point: { x: number; y: number }) => void;
+}) {
+  const { question, attempt, onSubmit } = props;
+  // Also gates drawing the regions: they are the answer, so they stay hidden while another click is possible.
+  const locked = attempt?.isCorrect === true;
+  const point = attempt?.clickPoint;
+
+  return (
+    <div className="hotspot">
+      <div
+        className={`hotspot-stage ${locked ? "locked" : ""}`}
+        onClick={(e) => {
+          if (locked) return;
+          const rect = e.currentTarget.getBoundingClientRect();
+          const x = ((e.clientX - rect.left) / rect.width) * 100;
+          const y = ((e.clientY - rect.top) / rect.height) * 100;
+          onSubmit({ x: Math.round(x * 10) / 10, y: Math.round(y * 10) / 10 });
+        }}
+      >
+        <img src={question.image} alt={question.imageAlt ?? ""} draggable={false} />
+        {locked ? (
+          <svg className="hotspot-overlay" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+            {question.regions.map((r) => (
+              <polygon key={r.id} points={r.points.map(([x, y]) => `${x},${y}`).join(" ")} className="hotspot-region" />
+            ))}
+          </svg>
+        ) : null}
+        {point ? (
+          <div className={`hotspot-marker ${attempt?.isCorrect ? "ok" : "no"}`} style={{ left: `${point.x}%`, top: `${point.y}%` }} />
+        ) : null}
+      </div>
+      {!locked ? <div className="muted hotspot-hint">Click the correct area of the image.</div> : null}
     </div>
   );
 }
@@ -2327,8 +5333,14 @@ function MatchView(props: {
 }) {
   const { question, attempt, onSubmit } = props;
 
-  const leftItems = useMemo(() => question.pairs.map((p) => p.left), [question.pairs]);
-  const rightItemsShuffled = useMemo(() => shuffleArray(question.pairs.map((p) => p.right)), [question.pairs]);
+  const leftItems = useMemo(() => [...new Set(question.pairs.map((p) => p.left))], [question.pairs]);
+  const leftImages = useMemo(() => new Map(question.pairs.map((p) => [p.left, p.leftImage])), [question.pairs]);
+  const rightImages = useMemo(() => new Map(question.pairs.map((p) => [p.right, p.rightImage])), [question.pairs]);
+  const rightItemsShuffled = useMemo(
+    () => shuffleArray([...new Set([...question.pairs.map((p) => p.right), ...(question.distractors ?? [])])]),
+    [question.pairs, question.distractors],
+  );
+  const reusable = new Set(question.pairs.map((p) => p.right)).size < leftItems.length || !!question.distractors?.length;
 
   const [selected, setSelected] = useState<Record<string, string>>(() => {
     const init: Record<string, string> = {};
@@ -2350,11 +5362,7 @@ function MatchView(props: {
 
   const canSubmit = chosenPairs.length === leftItems.length && !locked;
 
-  const correctMap = useMemo(() => {
-    const m = new Map<string, string>();
-    for (const p of question.pairs) m.set(p.left, p.right);
-    return m;
-  }, [question.pairs]);
+  const correctMap = useMemo(() => matchAcceptedRights(question), [question]);
 
   function submit() {
     if (!canSubmit) return;
@@ -2365,30 +5373,38 @@ function MatchView(props: {
     <div className="match">
       <div className="match-grid">
         {leftItems.map((l) => {
-          const chosenRight = locked ? attempt?.chosenPairs?.find((p) => p.left === l)?.right ?? "" : selected[l];
-          const correctRight = correctMap.get(l) ?? "";
-          const isCorrect = locked ? chosenRight === correctRight : false;
+          const submittedRight = attempt?.chosenPairs?.find((p) => p.left === l)?.right ?? "";
+          const chosenRight = locked ? submittedRight : selected[l];
+          // Rows are marked while they still show what was submitted.
+          const graded = !!attempt && chosenRight === submittedRight;
+          const isCorrect = correctMap.get(l)?.has(chosenRight) ?? false;
 
           return (
             <div key={l} className="match-row">
-              <div className="match-left">{l}</div>
-              <select
-                className={`match-select ${locked ? (isCorrect ? "ok" : "no") : ""}`}
-                value={chosenRight}
-                onChange={(e) => {
-                  const v = e.target.value;
-                  setSelected((prev) => ({ ...prev, [l]: v }));
-                }}
-                disabled={locked}
-              >
-                <option value="">Select</option>
-                {rightItemsShuffled.map((r) => (
-                  <option key={r} value={r}>
-                    {r}
-                  </option>
-                ))}
-              </select>
-              {locked ? <div className="match-mark">{isCorrect ? "✓" : "✗"}</div> : <div className="match-mark" />}
+              <div className="match-left">
+                {leftImages.get(l) ? <img className="choice-image" src={leftImages.get(l)} alt="" /> : null}
+                <RichText inline text={l} />
+              </div>
+              <div className="match-right">
+                <select
+                  className={`match-select ${graded ? (isCorrect ? "ok" : "no") : ""}`}
+                  value={chosenRight}
+                  onChange={(e) => {
+                    const v = e.target.value;
+                    setSelected((prev) => ({ ...prev, [l]: v }));
+                  }}
+                  disabled={locked}
+                >
+                  <option value="">Select</option>
+                  {rightItemsShuffled.map((r) => (
+                    <option key={r} value={r}>
+                      {toPlainText(r)}
+                    </option>
+                  ))}
+                </select>
+                {rightImages.get(chosenRight) ? <img className="choice-image" src={rightImages.get(chosenRight)} alt="" /> : null}
+              </div>
+              {graded ? <div className="match-mark">{isCorrect ? "✓" : "✗"}</div> : <div className="match-mark" />}
             </div>
           );
         })}
@@ -2398,7 +5414,12 @@ function MatchView(props: {
         <button className="btn" onClick={submit} disabled={!canSubmit}>
           Submit matches
         </button>
-        {!locked ? <div className="muted">Tip: you must match all items before submitting.</div> : null}
+        {!locked ? (
+          <div className="muted">
+            Tip: you must match all items before submitting.
+            {reusable ? " Some choices may be used more than once, or not at all." : ""}
+          </div>
+        ) : null}
       </div>
 
       {locked ? (
@@ -2407,7 +5428,10 @@ function MatchView(props: {
           <ul className="pairs">
             {question.pairs.map((p) => (
               <li key={`${p.left}=>${p.right}`}>
-                <b>{p.left}</b> , {p.right}
+                <b>
+                  <RichText inline text={p.left} />
+                </b>{" "}
+                , <RichText inline text={p.right} />
               </li>
             ))}
           </ul>
@@ -0,0 +1,135 @@
+import { useMemo, type ReactNode } from "react";
+import { parseMarkdown, type Block, type Inline, type MathNode } from "./markdown";
+
+// Renders question content (prompts, options, explanations) from the Markdown subset in markdown.ts.
+// With `inline`, a single paragraph renders without a wrapping block so it fits inside buttons and list rows.
+export function RichText(props: { text: string; inline?: boolean; className?: string }) {
+  const { text, inline, className } = props;
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  if (inline && blocks.length <= 1 && (blocks[0]?.t ?? "p") === "p") {
+    const c = blocks[0]?.t === "p" ? blocks[0].c : [];
+    return <span className={["rich", className].filter(Boolean).join(" ")}>{renderInline(c)}</span>;
+  }
+
+  return <div className={["rich", className].filter(Boolean).join(" ")}>{blocks.map(renderBlock)}</div>;
+}
+
+function renderBlock(b: Block, key: number): ReactNode {
+  switch (b.t) {
+    case "p":
+      return <p key={key}>{renderInline(b.c)}</p>;
+    case "h": {
+      const Tag = b.level === 1 ? "h3" : b.level === 2 ? "h4" : "h5";
+      return <Tag key={key}>{renderInline(b.c)}</Tag>;
+    }
+    case "ul":
+      return (
+        <ul key={key}>
+          {b.items.map((item, i) => (
+            <li key={i}>{renderInline(item)}</li>
+          ))}
+        </ul>
+      );
+    case "ol":
+      return (
+        <ol key={key} start={b.start}>
+          {b.items.map((item, i) => (
+            <li key={i}>{renderInline(item)}</li>
+          ))}
+        </ol>
+      );
+    case "table":
+      return (
+        <div key={key} className="rich-table-wrap">
+          <table className="rich-table">
+            <thead>
+              <tr>
+                {b.head.map((cell, i) => (
+                  <th key={i} style={{ textAlign: b.align[i] }}>
+                    {renderInline(cell)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {b.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, i) => (
+                    <td key={i} style={{ textAlign: b.align[i] }}>
+                      {renderInline(cell)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case "pre":
+      return (
+        <pre key={key} className="code">
+          {b.v}
+        </pre>
+      );
+  }
+}
+
+function renderInline(nodes: Inline[]): ReactNode[] {
+  return nodes.map((n, i) => {
+    switch (n.t) {
+      case "text":
+        return n.v;
+      case "br":
+        return <br key={i} />;
+      case "code":
+        return <code key={i}>{n.v}</code>;
+      case "strong":
+        return <strong key={i}>{renderInline(n.c)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(n.c)}</em>;
+      case "del":
+        return <del key={i}>{renderInline(n.c)}</del>;
+      case "link":
+        return (
+          <a key={i} href={n.href} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>
+            {renderInline(n.c)}
+          </a>
+        );
+      case "math":
+        return (
+          <span key={i} className="math">
+            {renderMath(n.v)}
+          </span>
+        );
+    }
+  });
+}
+
+function renderMath(nodes: MathNode[]): ReactNode[] {
+  return nodes.map((n, i) => {
+    switch (n.t) {
+      case "text":
+        return /[A-Za-z]/.test(n.v) ? <i key={i}>{n.v}</i> : n.v;
+      case "upright":
+        return n.v;
+      case "sup":
+        return <sup key={i}>{renderMath(n.c)}</sup>;
+      case "sub":
+        return <sub key={i}>{renderMath(n.c)}</sub>;
+      case "sqrt":
+        return (
+          <span key={i}>
+            √<span className="math-sqrt">{renderMath(n.c)}</span>
+          </span>
+        );
+      case "frac":
+        return (
+          <span key={i} className="math-frac">
+            <span className="math-num">{renderMath(n.n)}</span>
+            <span className="math-den">{renderMath(n.d)}</span>
+          </span>
+        );
+    }
+  });
+}
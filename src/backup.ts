@@ -0,0 +1,80 @@
+import type { Attempt, BankEntry, Library } from "./types";
+import { crc32 } from "./zip";
+
+// A backup file carries the whole library: every bank's config, settings, progress and attempt history, so a
+// learner can move between machines. The checksum catches files that were truncated or edited by hand; it is
+// not a signature.
+
+export const BACKUP_FORMAT = "quizzer-backup";
+export const BACKUP_VERSION = 1;
+
+export type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  checksum: string; // CRC-32 of JSON.stringify(library), as 8 hex digits
+  library: Library;
+};
+
+function checksum(text: string): string {
+  return crc32(new TextEncoder().encode(text)).toString(16).padStart(8, "0");
+}
+
+export function createBackup(library: Library): string {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    checksum: checksum(JSON.stringify(library)),
+    library,
+  };
+  return JSON.stringify(file);
+}
+
+// Checks the envelope and checksum only. Sessions inside are returned as stored, possibly in an older schema,
+// and still need migrating and validating like any other stored session.
+export function readBackup(text: string): { ok: true; value: { exportedAt: number; library: Library } } | { ok: false; error: string } {
+  let file: Partial<BackupFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "This is not a backup file: it is not valid JSON." };
+  }
+  if (!file || typeof file !== "object" || file.format !== BACKUP_FORMAT) {
+    return { ok: false, error: "This is not a backup file. Use “Download backup” to make one." };
+  }
+  if (typeof file.version !== "number" || file.version > BACKUP_VERSION) {
+    return { ok: false, error: `This backup was made by a newer version of the app (format version ${file.version}).` };
+  }
+  if (!file.library || typeof file.library !== "object" || typeof file.checksum !== "string") {
+    return { ok: false, error: "The backup file is incomplete." };
+  }
+  if (checksum(JSON.stringify(file.library)) !== file.checksum) {
+    return { ok: false, error: "The backup file is damaged or was edited: its checksum does not match." };
+  }
+  return { ok: true, value: { exportedAt: typeof file.exportedAt === "number" ? file.exportedAt : 0, library: file.library } };
+}
+
+// Merging keeps every bank from both sides. Banks are matched by id, which survives backup and restore. A bank
+// found on both sides keeps the union of both histories, and the config, settings and progress of whichever
+// copy was studied more recently.
+export function mergeLibraries(current: Library, incoming: Library): Library {
+  const incomingById = new Map(incoming.banks.map((b) => [b.id, b]));
+  const banks = current.banks.map((b) => {
+    const other = incomingById.get(b.id);
+    return other ? mergeBank(b, other) : b;
+  });
+  const currentIds = new Set(current.banks.map((b) => b.id));
+  for (const b of incoming.banks) if (!currentIds.has(b.id)) banks.push(b);
+  return { activeBankId: current.activeBankId, banks };
+}
+
+function mergeBank(mine: BankEntry, theirs: BankEntry): BankEntry {
+  const newer = (theirs.lastStudiedAt ?? theirs.createdAt) > (mine.lastStudiedAt ?? mine.createdAt) ? theirs : mine;
+  const key = (a: Attempt) => `${a.questionId}:${a.timestamp}`;
+  const seen = new Set(mine.session.history.map(key));
+  const history = [...mine.session.history, ...theirs.session.history.filter((a) => !seen.has(key(a)))].sort(
+    (a, b) => a.timestamp - b.timestamp,
+  );
+  return { ...newer, session: { ...newer.session, history } };
+}
@@ -0,0 +1,154 @@
+import { toPlainText } from "./markdown";
+import type { AppConfig, McqOption, Question } from "./types";
+
+// Authoring checks for a bank that is already valid: nothing here stops a quiz from running, but each finding
+// is something a reviewer would ask the author to fix. A bank switches rules off with `lint.disabled`; a single
+// question opts out with `lintIgnore`. Switches made in the app arrive separately as `local` and add to both.
+
+export type LintRuleId =
+  | "longest-correct"
+  | "answer-position"
+  | "duplicate-prompt"
+  | "all-of-the-above"
+  | "repeated-left"
+  | "missing-explanation"
+  | "missing-slide-ref";
+
+export const LINT_RULES: Array<{ id: LintRuleId; title: string; description: string }> = [
+  { id: "longest-correct", title: "Correct option is the longest", description: "Test-wise learners pick the longest option; the correct ones are at least a fifth longer than every other option." },
+  { id: "answer-position", title: "Answers cluster on one letter", description: "Across the bank, one option position holds the single correct answer far more often than chance would." },
+  { id: "duplicate-prompt", title: "Duplicate prompts", description: "The prompt is the same as, or shares almost all its words with, an earlier question." },
+  { id: "all-of-the-above", title: "“All/none of the above” options", description: "These options can be answered without knowing the content, and break when options are shuffled." },
+  { id: "repeated-left", title: "Repeated match items", description: "A match question lists the same left item in more than one pair." },
+  { id: "missing-explanation", title: "No explanation", description: "Learners who get the question wrong are not told why." },
+  { id: "missing-slide-ref", title: "No slide reference", description: "The question does not point back to where it is taught." },
+];
+
+// questionId is absent for findings about the bank as a whole.
+export type LintFinding = { rule: LintRuleId; questionId?: string; message: string };
+
+const LONGER_BY = 1.2;
+const NEAR_DUPLICATE = 0.85;
+// Below this many words, two prompts differing by one word are usually different questions.
+const MIN_NEAR_WORDS = 4;
+// The answer-position rule needs enough questions for the spread to mean anything.
+const MIN_POSITION_SAMPLE = 8;
+const CLUSTER_FACTOR = 1.5;
+
+const ABOVE_PATTERN = /\b(all|none|both|neither) of (the )?(above|these|the options)\b/i;
+
+function plain(text: string): string {
+  return toPlainText(text).toLowerCase();
+}
+
+function words(text: string): Set<string> {
+  return new Set(plain(text).match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  const union = a.size + b.size - shared;
+  return union ? shared / union : 1;
+}
+
+function letter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function correctIds(q: Question): string[] {
+  if (q.type === "mcq") return [q.answerId];
+  if (q.type === "multi") return q.answerIds;
+  return [];
+}
+
+function checkLongestCorrect(q: Question & { options: McqOption[] }, report: (message: string) => void) {
+  const correct = new Set(correctIds(q));
+  const lengths = (pick: boolean) => q.options.filter((o) => correct.has(o.id) === pick).map((o) => plain(o.text).length);
+  const right = lengths(true);
+  const wrong = lengths(false);
+  if (!right.length || !wrong.length) return;
+  if (Math.min(...right) > Math.max(...wrong) * LONGER_BY) {
+    report(correct.size > 1 ? "Every correct option is clearly longer than the wrong ones." : "The correct option is clearly the longest.");
+  }
+}
+
+// Single-answer questions only: on a multi question several positions are correct by design.
+function checkAnswerPositions(questions: Question[], report: (message: string) => void) {
+  const counts: number[] = [];
+  const expected: number[] = [];
+  let total = 0;
+  for (const q of questions) {
+    if (q.type !== "mcq" || q.options.length < 3) continue;
+    const at = q.options.findIndex((o) => o.id === q.answerId);
+    if (at < 0) continue;
+    total++;
+    counts[at] = (counts[at] ?? 0) + 1;
+    for (let i = 0; i < q.options.length; i++) expected[i] = (expected[i] ?? 0) + 1 / q.options.length;
+  }
+  if (total < MIN_POSITION_SAMPLE) return;
+  for (const [i, count = 0] of counts.entries()) {
+    if (count > expected[i] * CLUSTER_FACTOR && count - expected[i] >= 3) {
+      report(`${count} of ${total} single-answer questions have the correct option in position ${letter(i)} (about ${Math.round(expected[i])} expected).`);
+    }
+  }
+}
+
+export type LintSwitches = { disabled?: LintRuleId[]; ignored?: Record<string, LintRuleId[]> };
+
+export function lintBank(config: AppConfig, local: LintSwitches = {}): LintFinding[] {
+  const disabled = new Set([...(config.lint?.disabled ?? []), ...(local.disabled ?? [])]);
+  const findings: LintFinding[] = [];
+  const ignoring = (q: Question, rule: LintRuleId) =>
+    disabled.has(rule) || (q.lintIgnore ?? []).includes(rule) || (local.ignored?.[q.id] ?? []).includes(rule);
+  const forQuestion = (q: Question, rule: LintRuleId) => (message: string) => {
+    if (!ignoring(q, rule)) findings.push({ rule, questionId: q.id, message });
+  };
+
+  const earlier: Array<{ id: string; exact: string; words: Set<string> }> = [];
+  for (const q of config.questions) {
+    if (q.type === "mcq" || q.type === "multi") {
+      checkLongestCorrect(q, forQuestion(q, "longest-correct"));
+      for (const o of q.options) {
+        if (ABOVE_PATTERN.test(toPlainText(o.text))) forQuestion(q, "all-of-the-above")(`Option ${o.id} reads “${toPlainText(o.text)}”.`);
+      }
+    }
+
+    if (q.type === "match") {
+      const seen = new Map<string, number>();
+      for (const p of q.pairs) {
+        const key = plain(p.left).replace(/\s+/g, " ").trim();
+        seen.set(key, (seen.get(key) ?? 0) + 1);
+      }
+      for (const [left, count] of seen) {
+        if (count > 1) forQuestion(q, "repeated-left")(`“${left}” is the left item of ${count} pairs; learners see it once and any of its rights is accepted.`);
+      }
+    }
+
+    const prompt = { id: q.id, exact: plain(q.prompt).replace(/\s+/g, " ").trim(), words: words(q.prompt) };
+    const twin = !prompt.exact
+      ? undefined
+      : (earlier.find((e) => e.exact === prompt.exact) ??
+        (prompt.words.size >= MIN_NEAR_WORDS ? earlier.find((e) => similarity(e.words, prompt.words) >= NEAR_DUPLICATE) : undefined));
+    if (twin) {
+      forQuestion(q, "duplicate-prompt")(
+        twin.exact === prompt.exact
+          ? `The prompt is the same as ${twin.id}.`
+          : `The prompt shares ${Math.round(similarity(twin.words, prompt.words) * 100)}% of its words with ${twin.id}.`,
+      );
+    }
+    earlier.push(prompt);
+
+    if (!q.explanation?.trim()) forQuestion(q, "missing-explanation")("No explanation.");
+    if (!q.slideRef) forQuestion(q, "missing-slide-ref")("No slide reference.");
+  }
+
+  if (!disabled.has("answer-position")) {
+    checkAnswerPositions(
+      config.questions.filter((q) => !ignoring(q, "answer-position")),
+      (message) => findings.push({ rule: "answer-position", message }),
+    );
+  }
+
+  return findings;
+}
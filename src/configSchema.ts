@@ -0,0 +1,326 @@
+import { LINT_RULES } from "./bankLint";
+import type { Question } from "./types";
+
+// The bank format, described once. The downloadable JSON Schema is generated from these shapes, and the config
+// validator takes its known keys and its checks on single values from them. Rules that relate several values
+// (unique ids, answers that must name an option, asset references) stay in the validator.
+
+export type FieldType =
+  | { kind: "string"; nonEmpty?: boolean; values?: readonly string[] }
+  | { kind: "number"; integer?: boolean; minimum?: number; exclusiveMinimum?: number; maximum?: number }
+  | { kind: "boolean" }
+  | { kind: "array"; items: FieldType; minItems?: number; maxItems?: number }
+  | { kind: "map"; values: FieldType }
+  | { kind: "shape"; name: ShapeName }
+  | { kind: "anyOf"; types: FieldType[] }
+  | { kind: "question" }; // any question shape, picked by its type
+
+export type Field = { type: FieldType; required?: boolean; description?: string };
+export type Shape = { description: string; fields: Record<string, Field> };
+
+export type ShapeName =
+  | "AppConfig"
+  | "LintSettings"
+  | "CaseStudy"
+  | "SlideReference"
+  | "McqOption"
+  | "ClozeMatching"
+  | "ClozeBlank"
+  | "NumericTolerance"
+  | "HotspotRegion"
+  | "MatchPair"
+  | "QuestionTemplate"
+  | "RangeVariable"
+  | "ChoicesVariable"
+  | "FormulaVariable";
+
+export const SCHEMA_FILE_NAME = "quizzer-bank.schema.json";
+
+const text: FieldType = { kind: "string" };
+const nonEmpty: FieldType = { kind: "string", nonEmpty: true };
+const flag: FieldType = { kind: "boolean" };
+const num: FieldType = { kind: "number" };
+const shape = (name: ShapeName): FieldType => ({ kind: "shape", name });
+const list = (items: FieldType, minItems?: number): FieldType => ({ kind: "array", items, minItems });
+const lintRuleIds: FieldType = list({ kind: "string", values: LINT_RULES.map((r) => r.id) });
+
+const imageFields: Record<string, Field> = {
+  image: { type: nonEmpty, description: 'URL, data URL, or "asset:<name>" from the bank\'s assets.' },
+  imageAlt: { type: text, description: "Alternative text for the image." },
+};
+
+export const SHAPES: Record<ShapeName, Shape> = {
+  AppConfig: {
+    description: "A question bank.",
+    fields: {
+      $schema: { type: text, description: `Where editors find this schema, e.g. "./${SCHEMA_FILE_NAME}". The app ignores it.` },
+      title: { type: text, required: true },
+      instructions: { type: text, description: "Shown before the first question. Markdown." },
+      cases: { type: list(shape("CaseStudy")), description: "Vignettes shared by several questions." },
+      questions: { type: list({ kind: "question" }), required: true },
+      assets: { type: { kind: "map", values: nonEmpty }, description: 'Images packaged with the bank: name → data URL, referenced as "asset:<name>".' },
+      lint: { type: shape("LintSettings") },
+    },
+  },
+  LintSettings: {
+    description: "Content-lint settings for the whole bank.",
+    fields: { disabled: { type: lintRuleIds, description: "Rules that are switched off." } },
+  },
+  CaseStudy: {
+    description: "A clinical vignette. Its questions are those whose caseId matches.",
+    fields: { id: { type: nonEmpty, required: true }, title: { type: text }, stem: { type: nonEmpty, required: true, description: "Markdown." }, ...imageFields },
+  },
+  SlideReference: {
+    description: "Where the question's content is taught.",
+    fields: { slideNumber: { type: num, required: true }, slideTitle: { type: text }, section: { type: text }, fileName: { type: text } },
+  },
+  McqOption: {
+    description: "An answer option.",
+    fields: {
+      id: { type: nonEmpty, required: true },
+      text: { type: text, required: true, description: "Markdown." },
+      rationale: { type: text, description: "Why this option is right or wrong, shown once it has been chosen." },
+      ...imageFields,
+    },
+  },
+  ClozeMatching: {
+    description: "How typed answers are compared.",
+    fields: {
+      caseSensitive: { type: flag, description: "Default false." },
+      collapseWhitespace: { type: flag, description: "Default true: trims and treats runs of whitespace as one space." },
+      ignoreAccents: { type: flag, description: "Default true." },
+      maxTypos: { type: { kind: "number", integer: true, minimum: 0 }, description: "Default 0: edits allowed on answers of 4+ characters." },
+    },
+  },
+  ClozeBlank: {
+    description: "A blank, marked {{id}} in the prompt.",
+    fields: { id: { type: nonEmpty, required: true }, answers: { type: list(nonEmpty, 1), required: true }, matching: { type: shape("ClozeMatching") } },
+  },
+  NumericTolerance: {
+    description: "How far an answer may be from the correct one.",
+    fields: {
+      kind: { type: { kind: "string", values: ["absolute", "relative"] }, required: true },
+      value: { type: { kind: "number", minimum: 0 }, required: true, description: "In the unit (absolute) or as a fraction of the answer (relative, 0.05 = ±5%)." },
+    },
+  },
+  HotspotRegion: {
+    description: "A clickable polygon.",
+    fields: {
+      id: { type: nonEmpty, required: true },
+      label: { type: text },
+      points: {
+        type: list({ kind: "array", items: { kind: "number", minimum: 0, maximum: 100 }, minItems: 2, maxItems: 2 }, 3),
+        required: true,
+        description: "[x, y] percentages of the image's width and height.",
+      },
+    },
+  },
+  MatchPair: {
+    description: "A left item and its correct right item.",
+    fields: { left: { type: text, required: true }, right: { type: text, required: true }, leftImage: { type: nonEmpty }, rightImage: { type: nonEmpty } },
+  },
+  QuestionTemplate: {
+    description: "Random variables for the question. Any string may embed [[expr]] or [[expr|decimals]].",
+    fields: {
+      variables: {
+        type: { kind: "map", values: { kind: "anyOf", types: [shape("RangeVariable"), shape("ChoicesVariable"), shape("FormulaVariable")] } },
+        required: true,
+        description: "Drawn in order, so a formula may use any variable declared above it.",
+      },
+      answer: { type: text, description: "Formula for a numeric question's answer." },
+    },
+  },
+  RangeVariable: {
+    description: "A random value on a step grid.",
+    fields: { min: { type: num, required: true }, max: { type: num, required: true }, step: { type: { kind: "number", exclusiveMinimum: 0 }, description: "Default 1." } },
+  },
+  ChoicesVariable: { description: "A random pick.", fields: { choices: { type: list(num, 1), required: true } } },
+  FormulaVariable: { description: "A computed value.", fields: { formula: { type: text, required: true, description: 'E.g. "round(weight * 0.1, 1)".' } } },
+};
+
+const QUESTION_BASE: Record<string, Field> = {
+  id: { type: nonEmpty, required: true },
+  prompt: { type: nonEmpty, required: true, description: "Markdown." },
+  explanation: { type: text, description: "Shown after answering. Markdown." },
+  tags: { type: list(text) },
+  slideRef: { type: shape("SlideReference") },
+  template: { type: shape("QuestionTemplate") },
+  caseId: { type: nonEmpty, description: "Groups the question under a case." },
+  ...imageFields,
+  lintIgnore: { type: lintRuleIds, description: "Content-lint rules not reported for this question." },
+};
+
+const QUESTION_TYPE_FIELDS: Record<Question["type"], Shape> = {
+  mcq: {
+    description: "Single answer.",
+    fields: { options: { type: list(shape("McqOption"), 2), required: true }, answerId: { type: nonEmpty, required: true } },
+  },
+  multi: {
+    description: "Select all that apply.",
+    fields: {
+      options: { type: list(shape("McqOption"), 2), required: true },
+      answerIds: { type: list(nonEmpty, 1), required: true },
+      scoring: { type: { kind: "string", values: ["all-or-nothing", "partial"] }, description: "Partial gives +1 per correct tick and -1 per wrong tick." },
+    },
+  },
+  cloze: {
+    description: "Fill in the blanks.",
+    fields: { blanks: { type: list(shape("ClozeBlank"), 1), required: true }, matching: { type: shape("ClozeMatching") } },
+  },
+  order: {
+    description: "Put the items in order.",
+    fields: {
+      items: { type: list(nonEmpty, 2), required: true, description: "In the correct order; learners see them shuffled." },
+      scoring: { type: { kind: "string", values: ["exact", "partial"] }, description: "Partial credits the longest run kept in order." },
+    },
+  },
+  numeric: {
+    description: "A number, optionally with a unit.",
+    fields: {
+      answer: { type: num, description: "Required unless template.answer computes it." },
+      tolerance: { type: shape("NumericTolerance") },
+      unit: { type: text, description: "mcg, mg, g, kg, mL, dL, L or units; learners may answer in any convertible unit." },
+      requireUnit: { type: flag, description: "Default false: a bare number is read in the unit." },
+      precision: { type: { kind: "number", integer: true, minimum: 0, maximum: 10 }, description: "Decimal places to round to." },
+    },
+  },
+  hotspot: {
+    description: "Click the right part of an image.",
+    fields: { image: { type: nonEmpty, required: true }, regions: { type: list(shape("HotspotRegion"), 1), required: true } },
+  },
+  match: {
+    description: "Match left items to right items. Several pairs may share a right item.",
+    fields: {
+      pairs: { type: list(shape("MatchPair"), 2), required: true },
+      distractors: { type: list(nonEmpty), description: "Extra right items that belong to no left item." },
+    },
+  },
+};
+
+export const QUESTION_TYPES = Object.keys(QUESTION_TYPE_FIELDS) as Question["type"][];
+
+// Fields every question has, whatever its type.
+export const QUESTION_BASE_SHAPE: Shape = {
+  description: "A question.",
+  fields: { ...QUESTION_BASE, type: { type: { kind: "string", values: QUESTION_TYPES }, required: true } },
+};
+
+// The full shape of each question type: the common fields plus its own.
+export const QUESTION_SHAPES = Object.fromEntries(
+  QUESTION_TYPES.map((t): [Question["type"], Shape] => [
+    t,
+    {
+      description: QUESTION_TYPE_FIELDS[t].description,
+      fields: { ...QUESTION_BASE, type: { type: { kind: "string", values: [t] }, required: true }, ...QUESTION_TYPE_FIELDS[t].fields },
+    },
+  ]),
+) as Record<Question["type"], Shape>;
+
+function questionSchemaName(type: Question["type"]): string {
+  return `${type[0].toUpperCase()}${type.slice(1)}Question`;
+}
+
+// What is wrong with a single value, as the end of a sentence ("must be …"), or null if it is fine. Arrays,
+// maps and shapes are left to the caller, which walks into them.
+export function scalarProblem(type: FieldType, value: unknown): string | null {
+  switch (type.kind) {
+    case "string":
+      if (type.values) {
+        const quoted = type.values.map((v) => `"${v}"`);
+        return type.values.includes(value as string) ? null : `must be ${quoted.length > 2 ? `one of ${quoted.join(", ")}` : quoted.join(" or ")}`;
+      }
+      if (typeof value !== "string") return type.nonEmpty ? "must be a non-empty string" : "must be a string";
+      return type.nonEmpty && !value.trim() ? "must be a non-empty string" : null;
+    case "number": {
+      const ok =
+        typeof value === "number" &&
+        Number.isFinite(value) &&
+        (!type.integer || Number.isInteger(value)) &&
+        (type.minimum === undefined || value >= type.minimum) &&
+        (type.exclusiveMinimum === undefined || value > type.exclusiveMinimum) &&
+        (type.maximum === undefined || value <= type.maximum);
+      return ok ? null : `must be ${describeType(type)}`;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be true or false";
+    default:
+      return null;
+  }
+}
+
+// A short reading of a field type, for messages and the format reference.
+export function describeType(type: FieldType): string {
+  switch (type.kind) {
+    case "string":
+      if (type.values) return type.values.map((v) => `"${v}"`).join(" | ");
+      return type.nonEmpty ? "non-empty string" : "string";
+    case "number": {
+      const what = type.integer ? "an integer" : "a number";
+      if (type.minimum !== undefined && type.maximum !== undefined) return `${what} from ${type.minimum} to ${type.maximum}`;
+      if (type.minimum !== undefined) return type.minimum === 0 ? `${what} of 0 or more` : `${what} of at least ${type.minimum}`;
+      if (type.exclusiveMinimum !== undefined) return type.exclusiveMinimum === 0 ? `a positive ${type.integer ? "integer" : "number"}` : `${what} above ${type.exclusiveMinimum}`;
+      return what;
+    }
+    case "boolean":
+      return "true or false";
+    case "array":
+      return `array of ${describeType(type.items)}${type.minItems ? ` (at least ${type.minItems})` : ""}`;
+    case "map":
+      return `object of name → ${describeType(type.values)}`;
+    case "shape":
+      return type.name;
+    case "anyOf":
+      return type.types.map(describeType).join(" | ");
+    case "question":
+      return "Question";
+  }
+}
+
+function typeSchema(type: FieldType): Record<string, unknown> {
+  switch (type.kind) {
+    case "string":
+      return type.values ? { enum: type.values } : { type: "string", ...(type.nonEmpty ? { minLength: 1, pattern: "\\S" } : {}) };
+    case "number":
+      return { type: type.integer ? "integer" : "number", minimum: type.minimum, exclusiveMinimum: type.exclusiveMinimum, maximum: type.maximum };
+    case "boolean":
+      return { type: "boolean" };
+    case "array":
+      return { type: "array", items: typeSchema(type.items), minItems: type.minItems, maxItems: type.maxItems };
+    case "map":
+      return { type: "object", additionalProperties: typeSchema(type.values) };
+    case "shape":
+      return { $ref: `#/$defs/${type.name}` };
+    case "anyOf":
+      return { anyOf: type.types.map(typeSchema) };
+    case "question":
+      return { $ref: "#/$defs/Question" };
+  }
+}
+
+function shapeSchema(s: Shape): Record<string, unknown> {
+  const required = Object.keys(s.fields).filter((key) => s.fields[key].required);
+  return {
+    type: "object",
+    description: s.description,
+    properties: Object.fromEntries(Object.entries(s.fields).map(([key, f]) => [key, { ...typeSchema(f.type), description: f.description }])),
+    required: required.length ? required : undefined,
+    additionalProperties: false,
+  };
+}
+
+// JSON Schema (draft 2020-12) for a bank file. It is stricter than the app, which accepts unknown keys and lint
+// rule ids with a warning, so editors flag the typos those warnings are about.
+export function createConfigSchema(): string {
+  const defs: Record<string, unknown> = Object.fromEntries(Object.entries(SHAPES).map(([name, s]) => [name, shapeSchema(s)]));
+  defs.Question = { description: "Any question; its type picks the shape.", oneOf: QUESTION_TYPES.map((t) => ({ $ref: `#/$defs/${questionSchemaName(t)}` })) };
+  for (const t of QUESTION_TYPES) defs[questionSchemaName(t)] = shapeSchema(QUESTION_SHAPES[t]);
+  const schema = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: "Quizzer question bank",
+    description: "A question bank, as pasted into Settings or opened as a bank file.",
+    $ref: "#/$defs/AppConfig",
+    $defs: defs,
+  };
+  // Undefined members (unset bounds, descriptions) drop out here.
+  return JSON.stringify(schema, null, 2);
+}
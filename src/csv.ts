@@ -0,0 +1,311 @@
+import type { MatchPair, McqOption, Question } from "./types";
+
+// Spreadsheet import and export for MCQ and match questions. One row per question, with a header row:
+//   - MCQ rows fill options A–F and give the correct option's letter in Answer.
+//   - Match rows (Type "match") write each pair as "left => right" in the option cells. A cell without "=>" is a
+//     distractor, and Answer stays empty.
+// Tags are separated by ";" and a slide reference needs at least its slide number.
+
+export type CsvField =
+  | "id"
+  | "type"
+  | "prompt"
+  | "optionA"
+  | "optionB"
+  | "optionC"
+  | "optionD"
+  | "optionE"
+  | "optionF"
+  | "answer"
+  | "explanation"
+  | "tags"
+  | "slideNumber"
+  | "slideTitle"
+  | "section"
+  | "slideFile";
+
+// `header` is what the export writes; guessMapping recognises it and the aliases.
+export const CSV_FIELDS: Array<{ field: CsvField; header: string; aliases: string[] }> = [
+  { field: "id", header: "ID", aliases: ["question id"] },
+  { field: "type", header: "Type", aliases: ["question type"] },
+  { field: "prompt", header: "Prompt", aliases: ["question", "stem", "question text"] },
+  { field: "optionA", header: "A", aliases: ["option a", "choice a"] },
+  { field: "optionB", header: "B", aliases: ["option b", "choice b"] },
+  { field: "optionC", header: "C", aliases: ["option c", "choice c"] },
+  { field: "optionD", header: "D", aliases: ["option d", "choice d"] },
+  { field: "optionE", header: "E", aliases: ["option e", "choice e"] },
+  { field: "optionF", header: "F", aliases: ["option f", "choice f"] },
+  { field: "answer", header: "Answer", aliases: ["correct", "correct answer", "key", "answer letter"] },
+  { field: "explanation", header: "Explanation", aliases: ["rationale", "feedback"] },
+  { field: "tags", header: "Tags", aliases: ["tag", "topics"] },
+  { field: "slideNumber", header: "Slide number", aliases: ["slide", "slide no", "slide #"] },
+  { field: "slideTitle", header: "Slide title", aliases: [] },
+  { field: "section", header: "Section", aliases: ["lecture"] },
+  { field: "slideFile", header: "Slide file", aliases: ["file", "file name", "slides"] },
+];
+
+const OPTION_FIELDS: CsvField[] = ["optionA", "optionB", "optionC", "optionD", "optionE", "optionF"];
+const LETTERS = "ABCDEF";
+const PAIR_SEPARATOR = "=>";
+
+export type Delimiter = "," | "\t" | ";";
+
+// row is the 1-based spreadsheet row (the header is row 1); column is a 0-based index into the row.
+export type CsvIssue = { row: number; column?: number; message: string };
+
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const count = (d: string) => firstLine.split(d).length - 1;
+  const candidates: Delimiter[] = ["\t", ";", ","];
+  return candidates.reduce((best, d) => (count(d) > count(best) ? d : best), ",");
+}
+
+// RFC 4180 style: quoted cells may hold delimiters, doubled quotes and line breaks.
+export function parseDelimited(text: string, delimiter: Delimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function normalizeHeader(h: string): string {
+  return h.trim().toLowerCase().replace(/[_\s]+/g, " ");
+}
+
+export function guessMapping(headers: string[]): Array<CsvField | null> {
+  const used = new Set<CsvField>();
+  return headers.map((h) => {
+    const name = normalizeHeader(h);
+    const hit = CSV_FIELDS.find((f) => !used.has(f.field) && (normalizeHeader(f.header) === name || f.aliases.includes(name)));
+    if (!hit) return null;
+    used.add(hit.field);
+    return hit.field;
+  });
+}
+
+// Spreadsheet-style column name: 0 is "A", 26 is "AA".
+export function columnName(column: number): string {
+  let name = "";
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+}
+
+// e.g. column 2 of row 5 is "C5".
+export function cellRef(row: number, column: number): string {
+  return `${columnName(column)}${row}`;
+}
+
+// Converts every data row it can and reports each problem against the cell that causes it.
+export function rowsToQuestions(rows: string[][], mapping: Array<CsvField | null>): { questions: Question[]; issues: CsvIssue[] } {
+  const issues: CsvIssue[] = [];
+  const questions: Question[] = [];
+  const columnOf = (field: CsvField) => {
+    const i = mapping.indexOf(field);
+    return i >= 0 ? i : undefined;
+  };
+
+  mapping.forEach((field, column) => {
+    if (field && mapping.indexOf(field) !== column) issues.push({ row: 1, column, message: "This field is already mapped to another column." });
+  });
+  if (columnOf("prompt") === undefined) issues.push({ row: 1, message: "Map one column to Prompt." });
+  if (issues.length > 0) return { questions, issues };
+
+  const seenIds = new Set<string>();
+  rows.slice(1).forEach((cells, i) => {
+    const row = i + 2;
+    if (cells.every((c) => c.trim() === "")) return;
+    const get = (field: CsvField) => {
+      const column = columnOf(field);
+      return column === undefined ? "" : (cells[column] ?? "").trim();
+    };
+    const before = issues.length;
+    const issue = (field: CsvField | null, message: string) => issues.push({ row, column: field ? columnOf(field) : undefined, message });
+
+    const type = get("type").toLowerCase() || "mcq";
+    if (type !== "mcq" && type !== "match") issue("type", `Type must be "mcq" or "match", not "${get("type")}".`);
+
+    const prompt = get("prompt");
+    if (!prompt) issue("prompt", "Prompt is empty.");
+
+    const id = get("id") || `q${row - 1}`;
+    if (seenIds.has(id)) issue(get("id") ? "id" : null, `ID "${id}" is used by an earlier row.`);
+    seenIds.add(id);
+
+    const cellsFilled = OPTION_FIELDS.map((field, k) => ({ field, letter: LETTERS[k], text: get(field) })).filter((o) => o.text);
+
+    const slideNumber = get("slideNumber");
+    const slideExtras = (["slideTitle", "section", "slideFile"] as const).filter((f) => get(f));
+    if (slideNumber && !/^\d+$/.test(slideNumber)) issue("slideNumber", "Slide number must be a whole number.");
+    if (!slideNumber) for (const f of slideExtras) issue(f, "Add a slide number to use this slide reference.");
+
+    const base = {
+      id,
+      prompt,
+      explanation: get("explanation") || undefined,
+      tags: get("tags") ? get("tags").split(/[;,]/).map((t) => t.trim()).filter(Boolean) : undefined,
+      slideRef: slideNumber
+        ? {
+            slideNumber: Number(slideNumber),
+            slideTitle: get("slideTitle") || undefined,
+            section: get("section") || undefined,
+            fileName: get("slideFile") || undefined,
+          }
+        : undefined,
+    };
+
+    if (type === "match") {
+      const pairs: MatchPair[] = [];
+      const distractors: string[] = [];
+      for (const o of cellsFilled) {
+        const at = o.text.indexOf(PAIR_SEPARATOR);
+        if (at < 0) {
+          distractors.push(o.text);
+          continue;
+        }
+        const left = o.text.slice(0, at).trim();
+        const right = o.text.slice(at + PAIR_SEPARATOR.length).trim();
+        if (!left || !right) issue(o.field, `Write a pair as "left ${PAIR_SEPARATOR} right".`);
+        pairs.push({ left, right });
+      }
+      if (pairs.length < 2) issue(cellsFilled.length ? cellsFilled[0].field : "optionA", `A match question needs at least 2 "left ${PAIR_SEPARATOR} right" pairs.`);
+      if (get("answer")) issue("answer", "Match rows take their answers from the pairs; leave Answer empty.");
+      if (issues.length === before) {
+        questions.push({ ...base, type: "match", pairs, distractors: distractors.length ? distractors : undefined });
+      }
+      return;
+    }
+
+    if (type === "mcq") {
+      const options: McqOption[] = cellsFilled.map((o) => ({ id: o.letter.toLowerCase(), text: o.text }));
+      if (options.length < 2) issue(cellsFilled.length ? cellsFilled[0].field : "optionA", "An MCQ needs at least 2 options.");
+      const answer = get("answer").toUpperCase();
+      if (!answer) issue("answer", "Answer is empty; give the letter of the correct option.");
+      else if (!/^[A-F]$/.test(answer)) issue("answer", `Answer must be one letter from A to F, not "${get("answer")}".`);
+      else if (!options.some((o) => o.id === answer.toLowerCase())) issue("answer", `Answer is ${answer}, but option ${answer} is empty.`);
+      if (issues.length === before) {
+        questions.push({ ...base, type: "mcq", options, answerId: answer.toLowerCase() });
+      }
+    }
+  });
+
+  return { questions, issues };
+}
+
+function csvCell(text: string, delimiter: Delimiter): string {
+  return /["\r\n]/.test(text) || text.includes(delimiter) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// What a question loses in a row: rationales, images and lint ignores have no column.
+function droppedFields(q: Question): string[] {
+  const dropped: string[] = [];
+  if ((q.type === "mcq" || q.type === "multi") && q.options.some((o) => o.rationale)) dropped.push("option rationales");
+  const images =
+    !!q.image ||
+    ((q.type === "mcq" || q.type === "multi") && q.options.some((o) => o.image)) ||
+    (q.type === "match" && q.pairs.some((p) => p.leftImage || p.rightImage));
+  if (images) dropped.push("images");
+  if (q.lintIgnore?.length) dropped.push("lint ignores");
+  return dropped;
+}
+
+// Writes the questions that fit the format and lists the ones that do not, so nothing is dropped silently.
+// `skipped` are questions left out; `dropped` are exported questions that lost fields the format has no column for.
+export function questionsToCsv(questions: Question[], delimiter: Delimiter = ","): { text: string; skipped: string[]; dropped: string[] } {
+  const skipped: string[] = [];
+  const dropped: string[] = [];
+  const lines = [CSV_FIELDS.map((f) => f.header)];
+
+  for (const q of questions) {
+    // A row is read back as a standalone question with fixed text, so these would import as something else.
+    if (q.template) {
+      skipped.push(`${q.id}: templated questions have no CSV form`);
+      continue;
+    }
+    if (q.caseId) {
+      skipped.push(`${q.id}: belongs to case ${q.caseId}, which a row cannot hold`);
+      continue;
+    }
+    let optionCells: string[];
+    let answer = "";
+    if (q.type === "mcq") {
+      optionCells = q.options.map((o) => o.text);
+      answer = LETTERS[q.options.findIndex((o) => o.id === q.answerId)] ?? "";
+    } else if (q.type === "match") {
+      if (q.pairs.some((p) => p.left.includes(PAIR_SEPARATOR))) {
+        skipped.push(`${q.id}: a left item contains "${PAIR_SEPARATOR}"`);
+        continue;
+      }
+      // Read back, a distractor cell with the separator would become a pair.
+      if ((q.distractors ?? []).some((d) => d.includes(PAIR_SEPARATOR))) {
+        skipped.push(`${q.id}: a distractor contains "${PAIR_SEPARATOR}"`);
+        continue;
+      }
+      optionCells = [...q.pairs.map((p) => `${p.left} ${PAIR_SEPARATOR} ${p.right}`), ...(q.distractors ?? [])];
+    } else {
+      skipped.push(`${q.id}: ${q.type} questions have no CSV form`);
+      continue;
+    }
+    if (optionCells.length > OPTION_FIELDS.length) {
+      skipped.push(`${q.id}: more than ${OPTION_FIELDS.length} options`);
+      continue;
+    }
+
+    const values: Record<CsvField, string> = {
+      id: q.id,
+      type: q.type,
+      prompt: q.prompt,
+      optionA: optionCells[0] ?? "",
+      optionB: optionCells[1] ?? "",
+      optionC: optionCells[2] ?? "",
+      optionD: optionCells[3] ?? "",
+      optionE: optionCells[4] ?? "",
+      optionF: optionCells[5] ?? "",
+      answer,
+      explanation: q.explanation ?? "",
+      tags: (q.tags ?? []).join("; "),
+      slideNumber: q.slideRef ? String(q.slideRef.slideNumber) : "",
+      slideTitle: q.slideRef?.slideTitle ?? "",
+      section: q.slideRef?.section ?? "",
+      slideFile: q.slideRef?.fileName ?? "",
+    };
+    lines.push(CSV_FIELDS.map((f) => values[f.field]));
+    const lost = droppedFields(q);
+    if (lost.length) dropped.push(`${q.id}: ${lost.join(", ")}`);
+  }
+
+  // The byte-order mark makes Excel read the file as UTF-8.
+  return { text: "\uFEFF" + lines.map((cells) => cells.map((c) => csvCell(c, delimiter)).join(delimiter)).join("\r\n") + "\r\n", skipped, dropped };
+}
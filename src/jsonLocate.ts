@@ -0,0 +1,107 @@
+// Source positions for JSON the user typed, so problems found in the parsed value can point back at the text.
+// Paths use the validator's form: questions[3].options[0].id. Lines and columns are 1-based.
+
+export type SourcePosition = { line: number; column: number };
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === "\n") starts.push(i + 1);
+  return starts;
+}
+
+function toPosition(starts: number[], offset: number): SourcePosition {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return { line: lo + 1, column: offset - starts[lo] + 1 };
+}
+
+export function childPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+// Where each value starts; for object members, where the key starts. Only call this on text JSON.parse accepts.
+export function locateJsonValues(text: string): Map<string, SourcePosition> {
+  const starts = lineStarts(text);
+  const positions = new Map<string, SourcePosition>();
+  let i = 0;
+
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const readString = (): string => {
+    const from = i;
+    i++;
+    while (i < text.length && text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+    i++;
+    return JSON.parse(text.slice(from, i)) as string;
+  };
+  const readValue = (path: string) => {
+    skipSpace();
+    if (!positions.has(path)) positions.set(path, toPosition(starts, i));
+    const ch = text[i];
+    if (ch === "{") {
+      i++;
+      skipSpace();
+      while (text[i] !== "}") {
+        const keyAt = i;
+        const key = readString();
+        positions.set(childPath(path, key), toPosition(starts, keyAt));
+        skipSpace();
+        i++; // ':'
+        readValue(childPath(path, key));
+        skipSpace();
+        if (text[i] === ",") i++;
+        skipSpace();
+      }
+      i++;
+    } else if (ch === "[") {
+      i++;
+      skipSpace();
+      for (let n = 0; text[i] !== "]"; n++) {
+        readValue(childPath(path, n));
+        skipSpace();
+        if (text[i] === ",") i++;
+        skipSpace();
+      }
+      i++;
+    } else if (ch === '"') {
+      readString();
+    } else {
+      while (i < text.length && /[^\s,\]}]/.test(text[i])) i++;
+    }
+  };
+
+  readValue("");
+  return positions;
+}
+
+// The closest position we know for a path: the value itself, or else its nearest ancestor (a missing property
+// points at the object that should hold it).
+export function positionOf(positions: Map<string, SourcePosition>, path: string): SourcePosition | undefined {
+  for (let p = path; ; p = p.replace(/\[\d+\]$|\.?[^.[\]]+$/, "")) {
+    const found = positions.get(p);
+    if (found || p === "") return found;
+  }
+}
+
+// JSON.parse reports syntax errors as "… at position 42" (Chrome also adds "(line 3 column 5)") or, in Firefox,
+// "… at line 3 column 5 of the JSON data".
+export function syntaxErrorPosition(text: string, message: string): SourcePosition | undefined {
+  const lineColumn = /line (\d+) column (\d+)/.exec(message);
+  if (lineColumn) return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+  const offset = /position (\d+)/.exec(message);
+  return offset ? toPosition(lineStarts(text), Number(offset[1])) : undefined;
+}
+
+// The character offset of a position, for placing the caret in a textarea.
+export function offsetOf(text: string, position: SourcePosition): number {
+  const starts = lineStarts(text);
+  const start = starts[Math.min(position.line, starts.length) - 1] ?? 0;
+  return Math.min(start + position.column - 1, text.length);
+}
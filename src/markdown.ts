@@ -0,0 +1,375 @@
+// Markdown subset for question content: paragraphs, headings, lists, pipe tables, fenced code,
+// **bold**, *italic*, ~~strike~~, `code`, [links](https://...) and $inline math$.
+// The output is a plain AST rendered by RichText as React elements, so raw HTML in an imported
+// bank is only ever shown as text and never reaches the DOM as markup.
+
+export type Inline =
+  | { t: "text"; v: string }
+  | { t: "strong" | "em" | "del"; c: Inline[] }
+  | { t: "code"; v: string }
+  | { t: "math"; v: MathNode[] }
+  | { t: "link"; href: string; c: Inline[] }
+  | { t: "br" };
+
+export type Block =
+  | { t: "p"; c: Inline[] }
+  | { t: "h"; level: 1 | 2 | 3; c: Inline[] }
+  | { t: "ul"; items: Inline[][] }
+  | { t: "ol"; start: number; items: Inline[][] }
+  | { t: "table"; align: Array<"left" | "center" | "right" | undefined>; head: Inline[][]; rows: Inline[][][] }
+  | { t: "pre"; v: string };
+
+export type MathNode =
+  | { t: "text"; v: string }
+  | { t: "upright"; v: string }
+  | { t: "sup" | "sub" | "sqrt"; c: MathNode[] }
+  | { t: "frac"; n: MathNode[]; d: MathNode[] };
+
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+const UL_ITEM = /^\s*[-*+]\s+(.*)$/;
+const OL_ITEM = /^\s*(\d+)[.)]\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+export function parseMarkdown(src: string): Block[] {
+  const lines = src.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (line.trim().startsWith("```")) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith("```")) body.push(lines[i++]);
+      i++;
+      blocks.push({ t: "pre", v: body.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ t: "h", level: heading[1].length as 1 | 2 | 3, c: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (line.includes("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const head = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map((cell) => {
+        const c = cell.trim();
+        if (c.startsWith(":") && c.endsWith(":")) return "center" as const;
+        if (c.endsWith(":")) return "right" as const;
+        if (c.startsWith(":")) return "left" as const;
+        return undefined;
+      });
+      i += 2;
+      const rows: Inline[][][] = [];
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim()) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(head.map((_, col) => parseInline(cells[col] ?? "")));
+        i++;
+      }
+      blocks.push({ t: "table", align, head: head.map(parseInline), rows });
+      continue;
+    }
+
+    if (UL_ITEM.test(line)) {
+      const items: Inline[][] = [];
+      while (i < lines.length && UL_ITEM.test(lines[i])) items.push(parseInline(lines[i++].match(UL_ITEM)![1]));
+      blocks.push({ t: "ul", items });
+      continue;
+    }
+
+    if (OL_ITEM.test(line)) {
+      const start = Number(line.match(OL_ITEM)![1]);
+      const items: Inline[][] = [];
+      while (i < lines.length && OL_ITEM.test(lines[i])) items.push(parseInline(lines[i++].match(OL_ITEM)![2]));
+      blocks.push({ t: "ol", start, items });
+      continue;
+    }
+
+    const para: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !UL_ITEM.test(lines[i]) &&
+      !OL_ITEM.test(lines[i]) &&
+      !/^#{1,3}\s/.test(lines[i]) &&
+      !lines[i].trim().startsWith("```")
+    ) {
+      para.push(lines[i++]);
+    }
+    const c: Inline[] = [];
+    para.forEach((l, idx) => {
+      if (idx > 0) c.push({ t: "br" });
+      c.push(...parseInline(l));
+    });
+    blocks.push({ t: "p", c });
+  }
+
+  return blocks;
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+export function parseInline(src: string): Inline[] {
+  const out: Inline[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) out.push({ t: "text", v: text });
+    text = "";
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    const rest = src.slice(i);
+
+    if (ch === "\\" && i + 1 < src.length && /[\\`*_{}[\]()#+\-.!|$~>]/.test(src[i + 1])) {
+      text += src[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "`") {
+      const end = src.indexOf("`", i + 1);
+      if (end > i) {
+        flush();
+        out.push({ t: "code", v: src.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // $x$ is math only when the dollars hug their content, so "$5 and $10" stays text.
+    if (ch === "$") {
+      const m = rest.match(/^\$(?!\s)((?:\\.|[^$\\])+?)(?<!\s)\$(?!\d)/);
+      if (m) {
+        flush();
+        out.push({ t: "math", v: parseMath(m[1]) });
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    const delim = rest.startsWith("**") ? "**" : rest.startsWith("__") ? "__" : rest.startsWith("~~") ? "~~" : null;
+    if (delim) {
+      const end = src.indexOf(delim, i + 2);
+      if (end > i + 2) {
+        flush();
+        out.push({ t: delim === "~~" ? "del" : "strong", c: parseInline(src.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if (ch === "*" || ch === "_") {
+      // Underscores only emphasise at word edges, so snake_case and "____" blanks survive.
+      const before = src[i - 1] ?? " ";
+      const wordEdge = ch === "*" || !/\w/.test(before);
+      const end = findClosing(src, ch, i + 1);
+      if (wordEdge && end > i + 1 && !/\s/.test(src[i + 1]) && (ch === "*" || !/\w/.test(src[end + 1] ?? " "))) {
+        flush();
+        out.push({ t: "em", c: parseInline(src.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (ch === "[") {
+      const m = rest.match(/^\[([^\]]+)\]\(([^)\s]+)\)/);
+      if (m) {
+        flush();
+        if (SAFE_HREF.test(m[2])) out.push({ t: "link", href: m[2], c: parseInline(m[1]) });
+        else out.push(...parseInline(m[1]));
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    text += ch;
+    i++;
+  }
+
+  flush();
+  return out;
+}
+
+function findClosing(src: string, ch: string, from: number): number {
+  for (let j = from; j < src.length; j++) {
+    if (src[j] === "\\") {
+      j++;
+      continue;
+    }
+    if (src[j] === ch && src[j + 1] !== ch && src[j - 1] !== ch && !/\s/.test(src[j - 1])) return j;
+  }
+  return -1;
+}
+
+const MATH_SYMBOLS: Record<string, string> = {
+  times: "×",
+  div: "÷",
+  cdot: "·",
+  pm: "±",
+  le: "≤",
+  leq: "≤",
+  ge: "≥",
+  geq: "≥",
+  ne: "≠",
+  neq: "≠",
+  approx: "≈",
+  to: "→",
+  rightarrow: "→",
+  leftarrow: "←",
+  uparrow: "↑",
+  downarrow: "↓",
+  degree: "°",
+  circ: "°",
+  infty: "∞",
+  alpha: "α",
+  beta: "β",
+  gamma: "γ",
+  delta: "δ",
+  Delta: "Δ",
+  mu: "μ",
+  pi: "π",
+  sigma: "σ",
+  Sigma: "Σ",
+  theta: "θ",
+  "%": "%",
+  ",": " ",
+  " ": " ",
+};
+
+// TeX subset: ^ and _ (single character or {group}), \frac{a}{b}, \sqrt{x}, \text{...} and MATH_SYMBOLS.
+export function parseMath(src: string): MathNode[] {
+  let i = 0;
+
+  function atom(): MathNode[] {
+    if (src[i] === "{") return group();
+    if (src[i] === "\\") return command();
+    const ch = src[i++] ?? "";
+    return [{ t: "text", v: ch }];
+  }
+
+  function group(): MathNode[] {
+    i++; // {
+    const nodes = sequence("}");
+    i++; // }
+    return nodes;
+  }
+
+  function command(): MathNode[] {
+    i++; // backslash
+    let name = "";
+    if (/[A-Za-z]/.test(src[i] ?? "")) {
+      while (/[A-Za-z]/.test(src[i] ?? "")) name += src[i++];
+    } else {
+      name = src[i++] ?? "";
+    }
+    if (name === "frac") return [{ t: "frac", n: atom(), d: atom() }];
+    if (name === "sqrt") return [{ t: "sqrt", c: atom() }];
+    if (name === "text" || name === "mathrm") {
+      return [{ t: "upright", v: atom().map(mathToPlain).join("") }];
+    }
+    return [{ t: "text", v: MATH_SYMBOLS[name] ?? name }];
+  }
+
+  function sequence(stop?: string): MathNode[] {
+    const nodes: MathNode[] = [];
+    while (i < src.length && src[i] !== stop) {
+      if (src[i] === "^" || src[i] === "_") {
+        const t = src[i++] === "^" ? "sup" : "sub";
+        nodes.push({ t, c: atom() });
+      } else {
+        nodes.push(...atom());
+      }
+    }
+    return nodes;
+  }
+
+  return sequence();
+}
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "0": "⁰", "1": "¹", "2": "²", "3": "³", "4": "⁴", "5": "⁵", "6": "⁶", "7": "⁷", "8": "⁸", "9": "⁹", "+": "⁺", "-": "⁻",
+};
+const SUBSCRIPTS: Record<string, string> = {
+  "0": "₀", "1": "₁", "2": "₂", "3": "₃", "4": "₄", "5": "₅", "6": "₆", "7": "₇", "8": "₈", "9": "₉", "+": "₊", "-": "₋",
+};
+
+function mathToPlain(node: MathNode): string {
+  switch (node.t) {
+    case "text":
+    case "upright":
+      return node.v;
+    case "sup":
+    case "sub": {
+      const inner = node.c.map(mathToPlain).join("");
+      const table = node.t === "sup" ? SUPERSCRIPTS : SUBSCRIPTS;
+      if ([...inner].every((ch) => table[ch])) return [...inner].map((ch) => table[ch]).join("");
+      return `${node.t === "sup" ? "^" : "_"}(${inner})`;
+    }
+    case "sqrt":
+      return `√(${node.c.map(mathToPlain).join("")})`;
+    case "frac": {
+      const wrap = (nodes: MathNode[]) => {
+        const s = nodes.map(mathToPlain).join("");
+        return /[\s+\-×÷/]/.test(s) ? `(${s})` : s;
+      };
+      return `${wrap(node.n)}/${wrap(node.d)}`;
+    }
+  }
+}
+
+function inlineToPlain(nodes: Inline[]): string {
+  return nodes
+    .map((n) => {
+      switch (n.t) {
+        case "text":
+        case "code":
+          return n.v;
+        case "math":
+          return n.v.map(mathToPlain).join("");
+        case "br":
+          return " ";
+        default:
+          return inlineToPlain(n.c);
+      }
+    })
+    .join("");
+}
+
+// Single-line rendering for places that cannot hold markup: <option> labels, tooltips, exports.
+export function toPlainText(src: string): string {
+  return parseMarkdown(src)
+    .map((b) => {
+      switch (b.t) {
+        case "p":
+        case "h":
+          return inlineToPlain(b.c);
+        case "ul":
+        case "ol":
+          return b.items.map(inlineToPlain).join("; ");
+        case "table":
+          return [b.head, ...b.rows].map((row) => row.map(inlineToPlain).join(" | ")).join("; ");
+        case "pre":
+          return b.v;
+      }
+    })
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,90 @@
+import type { SessionState } from "./types";
+
+// Stored sessions carry a schemaVersion. When the stored shape changes, bump SESSION_SCHEMA_VERSION and add a step
+// to `migrations` that upgrades the previous version by one; older data is then carried forward step by step
+// instead of being dropped. Sessions saved before versioning have no schemaVersion and count as version 1.
+export const SESSION_SCHEMA_VERSION = 3;
+
+type StoredSession = { [key: string]: unknown; schemaVersion: number };
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// migrations[n] upgrades a version n payload to version n + 1.
+const migrations: Record<number, (stored: StoredSession) => StoredSession> = {
+  // 1 -> 2: fill in the settings and progress fields that early builds could leave out, and drop answers that
+  // are not attempt objects. Loading used to patch these on every read.
+  1: (stored) => {
+    const settings = isRecord(stored.settings) ? stored.settings : {};
+    const progress = isRecord(stored.progress) ? stored.progress : {};
+    const answers = isRecord(progress.answersById) ? progress.answersById : {};
+    return {
+      ...stored,
+      schemaVersion: 2,
+      settings: {
+        shuffle: settings.shuffle === true,
+        showExplanations: settings.showExplanations ?? true,
+        autoAdvance: settings.autoAdvance ?? true,
+      },
+      progress: {
+        ...progress,
+        currentIndex: typeof progress.currentIndex === "number" ? progress.currentIndex : 0,
+        answersById: Object.fromEntries(Object.entries(answers).filter(([, a]) => isRecord(a) && typeof a.questionId === "string")),
+        retryVersionById: isRecord(progress.retryVersionById) ? progress.retryVersionById : {},
+        startedAt: typeof progress.startedAt === "number" ? progress.startedAt : Date.now(),
+      },
+    };
+  },
+
+  // 2 -> 3: answers move from progress.answersById, which held only the latest attempt per question, to the
+  // append-only history. Rows already in the history store were not tagged with a session or retry. Those that
+  // are still the latest answer to their question belong to the current session; the retry of the rest is
+  // unknown and recorded as 0.
+  2: (stored) => {
+    const { answersById, ...progress } = isRecord(stored.progress) ? stored.progress : {};
+    const startedAt = typeof progress.startedAt === "number" ? progress.startedAt : 0;
+    const retries = isRecord(progress.retryVersionById) ? progress.retryVersionById : {};
+    const latest = Object.values(isRecord(answersById) ? answersById : {}).filter(isRecord);
+    const rows = (Array.isArray(stored.history) ? stored.history : []).filter(isRecord);
+
+    const isSame = (a: Record<string, unknown>, b: Record<string, unknown>) => a.questionId === b.questionId && a.timestamp === b.timestamp;
+    const tagCurrent = (a: Record<string, unknown>): Record<string, unknown> => ({ ...a, sessionStartedAt: startedAt, retry: retries[String(a.questionId)] ?? 0 });
+    const history = [
+      ...rows.map((row) =>
+        latest.some((a) => isSame(a, row))
+          ? tagCurrent(row)
+          : { ...row, sessionStartedAt: typeof row.timestamp === "number" && row.timestamp >= startedAt ? startedAt : 0, retry: 0 },
+      ),
+      ...latest.filter((a) => !rows.some((row) => isSame(a, row))).map(tagCurrent),
+    ].sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
+
+    return { ...stored, schemaVersion: 3, progress, history };
+  },
+};
+
+// Upgrades a stored session to the current schema. The config itself is not checked here; callers still run it
+// through assertConfigShape.
+export function migrateSession(raw: unknown): { ok: true; value: SessionState } | { ok: false; error: string } {
+  if (!isRecord(raw)) return { ok: false, error: "Stored session is not an object." };
+
+  const version = raw.schemaVersion ?? 1;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { ok: false, error: `Stored session has an invalid schemaVersion: ${JSON.stringify(raw.schemaVersion)}.` };
+  }
+  if (version > SESSION_SCHEMA_VERSION) {
+    return { ok: false, error: `Stored session uses schema version ${version}, which is newer than this app supports (${SESSION_SCHEMA_VERSION}).` };
+  }
+
+  let stored: StoredSession = { ...raw, schemaVersion: version };
+  while (stored.schemaVersion < SESSION_SCHEMA_VERSION) {
+    const from = stored.schemaVersion;
+    try {
+      stored = migrations[from](stored);
+    } catch (e) {
+      return { ok: false, error: `Migration from schema version ${from} failed: ${e instanceof Error ? e.message : String(e)}` };
+    }
+  }
+  // The last step produces the current shape.
+  return { ok: true, value: stored as unknown as SessionState };
+}
@@ -0,0 +1,431 @@
+import type { MatchPair, McqOption, MatchQuestion, McqQuestion, MultiQuestion, Question } from "./types";
+
+// Moodle GIFT and Moodle XML, mapped onto our MCQ, select-all-that-apply and match questions:
+//   - multiple choice with one right answer <-> McqQuestion; true/false imports as an MCQ with True and False
+//   - multiple choice with several positive weights <-> MultiQuestion (Moodle's weights are our partial rule)
+//   - matching <-> MatchQuestion; a pair with an empty left side is a distractor
+// Answer feedback maps to option rationales and general feedback to the explanation. Moodle names become ids.
+// Everything else is listed in the conversion report rather than dropped silently.
+
+export type Conversion<T> = { value: T; report: string[] };
+
+// ---------- shared ----------
+
+function questionLabel(index: number, name: string | undefined): string {
+  return name ? `Question ${index + 1} (“${name}”)` : `Question ${index + 1}`;
+}
+
+// A Moodle name becomes the id when it looks like one and is not taken; otherwise q1, q2, … by position.
+function pickId(name: string | undefined, index: number, used: Set<string>): string {
+  const candidate = name && /^[\w.-]{1,40}$/.test(name) && !used.has(name) ? name : `q${index + 1}`;
+  let id = candidate;
+  for (let n = 2; used.has(id); n++) id = `${candidate}-${n}`;
+  used.add(id);
+  return id;
+}
+
+function htmlToText(html: string, note: (msg: string) => void): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  if (doc.querySelector("img")) note("images in the text were not imported");
+  if (doc.querySelector("b, strong, i, em, u, sub, sup, table, ul, ol, a, span[style], font")) note("HTML formatting was reduced to plain text");
+  doc.querySelectorAll("br").forEach((br) => br.replaceWith("\n"));
+  doc.querySelectorAll("p, div, li, tr, h1, h2, h3, h4, h5, h6").forEach((el) => el.append("\n\n"));
+  return (doc.body.textContent ?? "").replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// The fraction Moodle gives each of k correct options, from its list of allowed grades.
+function fractionFor(k: number): string {
+  return String(Number((100 / k).toFixed(5)));
+}
+
+function unsupportedTypeNote(q: Question): string {
+  return `${q.id}: ${q.type} questions have no Moodle equivalent here and were not exported`;
+}
+
+function commonExportNotes(q: Question, report: string[]) {
+  if (q.slideRef) report.push(`${q.id}: the slide reference was not exported`);
+  if (q.image || q.template || q.caseId) report.push(`${q.id}: images, templates and case links were not exported`);
+  if (q.type === "multi" && q.scoring !== "partial") {
+    report.push(`${q.id}: all-or-nothing scoring becomes Moodle's partial credit (+${fractionFor(q.answerIds.length)}% per right option, minus the same per wrong one)`);
+  }
+}
+
+// ---------- GIFT ----------
+
+const GIFT_SPECIAL = /[~=#{}:\\]/g;
+
+function giftEscape(text: string): string {
+  return text.replace(GIFT_SPECIAL, "\\$&").replace(/\n/g, "\\n");
+}
+
+function giftUnescape(text: string): string {
+  return text.replace(/\\(n|.)/g, (_, c: string) => (c === "n" ? "\n" : c)).trim();
+}
+
+// Index of the first occurrence of `token` that is not escaped with a backslash, or -1.
+function indexUnescaped(text: string, token: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text.startsWith(token, i)) return i;
+  }
+  return -1;
+}
+
+type GiftAnswer = { marker: "=" | "~"; weight?: number; text: string; feedback?: string };
+
+// Splits the inside of { … } into answers. An answer starts at an unescaped = or ~ at the start or after
+// whitespace; "####" starts the general feedback.
+function splitGiftAnswers(body: string): { answers: GiftAnswer[]; generalFeedback?: string } {
+  const feedbackAt = indexUnescaped(body, "####");
+  const generalFeedback = feedbackAt >= 0 ? giftUnescape(body.slice(feedbackAt + 4)) : undefined;
+  const src = feedbackAt >= 0 ? body.slice(0, feedbackAt) : body;
+
+  const starts: number[] = [];
+  for (let i = 0; i < src.length; i++) {
+    if (src[i] === "\\") {
+      i++;
+      continue;
+    }
+    if ((src[i] === "=" || src[i] === "~") && (i === 0 || /\s/.test(src[i - 1])) && src[i + 1] !== ">") starts.push(i);
+  }
+
+  const answers = starts.map((start, k) => {
+    const raw = src.slice(start + 1, starts[k + 1] ?? src.length);
+    const weightMatch = /^\s*%(-?\d+(?:\.\d+)?)%/.exec(raw);
+    const rest = weightMatch ? raw.slice(weightMatch[0].length) : raw;
+    const hash = indexUnescaped(rest, "#");
+    return {
+      marker: src[start] as "=" | "~",
+      weight: weightMatch ? Number(weightMatch[1]) : undefined,
+      text: hash >= 0 ? rest.slice(0, hash) : rest,
+      feedback: hash >= 0 ? giftUnescape(rest.slice(hash + 1)) || undefined : undefined,
+    };
+  });
+  return { answers, generalFeedback };
+}
+
+export function parseGift(text: string): Conversion<Question[]> {
+  const report: string[] = [];
+  const questions: Question[] = [];
+  const usedIds = new Set<string>();
+  const blocks: Array<{ raw: string; tags: string[] }> = [];
+  let lines: string[] = [];
+  let tags: string[] = [];
+
+  // Blank lines separate questions; comment lines may carry [tag:…] markers for the question that follows.
+  const endBlock = () => {
+    if (!lines.length) return;
+    const raw = lines.join("\n").trim();
+    if (raw.startsWith("$CATEGORY:")) report.push(`Category “${raw.slice(10).trim()}” was ignored; each import becomes one bank`);
+    else blocks.push({ raw, tags });
+    lines = [];
+    tags = [];
+  };
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("//")) {
+      for (const m of trimmed.matchAll(/\[tag:([^\]]+)\]/g)) tags.push(m[1].trim());
+    } else if (trimmed === "") {
+      endBlock();
+    } else {
+      lines.push(line);
+    }
+  }
+  endBlock();
+
+  blocks.forEach(({ raw, tags: blockTags }, index) => {
+    let src = raw;
+    let name: string | undefined;
+    if (src.startsWith("::")) {
+      const end = indexUnescaped(src, "::", 2);
+      if (end > 0) {
+        name = giftUnescape(src.slice(2, end));
+        src = src.slice(end + 2).trim();
+      }
+    }
+    const label = questionLabel(index, name);
+    const notes: string[] = [];
+    const note = (msg: string) => {
+      if (!notes.includes(msg)) notes.push(msg);
+    };
+
+    let format = "moodle";
+    const formatMatch = /^\[(html|markdown|plain|moodle)\]/.exec(src);
+    if (formatMatch) {
+      format = formatMatch[1];
+      src = src.slice(formatMatch[0].length);
+    }
+    const readText = (t: string) => (format === "html" ? htmlToText(giftUnescape(t), note) : giftUnescape(t));
+
+    const open = indexUnescaped(src, "{");
+    const close = open >= 0 ? indexUnescaped(src, "}", open) : -1;
+    if (open < 0 || close < 0) {
+      report.push(`${label}: a description with no answers; not imported`);
+      return;
+    }
+    const before = src.slice(0, open);
+    const after = src.slice(close + 1).trim();
+    const body = src.slice(open + 1, close).trim();
+    if (after) note("the missing-word blank was written into the prompt as _____");
+    const prompt = after ? `${readText(before)} _____ ${readText(after)}` : readText(before);
+    const id = () => pickId(name, index, usedIds);
+    const tags = blockTags.length ? blockTags : undefined;
+    const finish = (q: Question) => {
+      questions.push(q);
+      for (const n of notes) report.push(`${label}: ${n}`);
+    };
+
+    if (!body) {
+      report.push(`${label}: essay questions are not supported; not imported`);
+      return;
+    }
+    if (body.startsWith("#")) {
+      report.push(`${label}: numerical questions are not supported; not imported`);
+      return;
+    }
+
+    const tf = /^(T|F|TRUE|FALSE)\s*(?:#([^#]*))?(?:#([^#]*))?(?:####([\s\S]*))?$/i.exec(body);
+    if (tf) {
+      const answerIsTrue = tf[1].toUpperCase().startsWith("T");
+      const wrongFeedback = tf[2] ? giftUnescape(tf[2]) : undefined;
+      const rightFeedback = tf[3] ? giftUnescape(tf[3]) : undefined;
+      const option = (value: boolean): McqOption => ({
+        id: value ? "true" : "false",
+        text: value ? "True" : "False",
+        rationale: (value === answerIsTrue ? rightFeedback : wrongFeedback) || undefined,
+      });
+      const explanation = tf[4] ? giftUnescape(tf[4]) || undefined : undefined;
+      finish({ id: id(), type: "mcq", prompt, tags, explanation, options: [option(true), option(false)], answerId: answerIsTrue ? "true" : "false" });
+      return;
+    }
+
+    const { answers, generalFeedback } = splitGiftAnswers(body);
+    const explanation = generalFeedback || undefined;
+    if (answers.length === 0) {
+      report.push(`${label}: no answers could be read; not imported`);
+      return;
+    }
+
+    if (answers.some((a) => indexUnescaped(a.text, "->") >= 0)) {
+      const pairs: MatchPair[] = [];
+      const distractors: string[] = [];
+      for (const a of answers) {
+        const arrow = indexUnescaped(a.text, "->");
+        if (arrow < 0) {
+          note("an answer without “->” in a matching question was skipped");
+          continue;
+        }
+        const left = readText(a.text.slice(0, arrow));
+        const right = readText(a.text.slice(arrow + 2));
+        if (left) pairs.push({ left, right });
+        else distractors.push(right);
+        if (a.feedback) note("feedback on matching pairs was dropped");
+      }
+      if (pairs.length < 2) {
+        report.push(`${label}: a matching question needs at least 2 pairs; not imported`);
+        return;
+      }
+      const q: MatchQuestion = { id: id(), type: "match", prompt, tags, explanation, pairs, distractors: distractors.length ? distractors : undefined };
+      finish(q);
+      return;
+    }
+
+    if (answers.every((a) => a.marker === "=")) {
+      report.push(`${label}: short-answer questions are not supported; not imported`);
+      return;
+    }
+
+    const options: McqOption[] = answers.map((a, k) => ({ id: String.fromCharCode(97 + k), text: readText(a.text), rationale: a.feedback }));
+    const isRight = (a: GiftAnswer) => a.marker === "=" || (a.weight ?? 0) > 0;
+    const right = options.filter((_, k) => isRight(answers[k])).map((o) => o.id);
+    if (right.length === 0) {
+      report.push(`${label}: no answer is marked right; not imported`);
+      return;
+    }
+    if (right.length === 1) {
+      if (answers.some((a) => a.marker === "~" && a.weight !== undefined)) note("partial-credit weights were dropped");
+      const q: McqQuestion = { id: id(), type: "mcq", prompt, tags, explanation, options, answerId: right[0] };
+      finish(q);
+      return;
+    }
+    const q: MultiQuestion = { id: id(), type: "multi", prompt, tags, explanation, options, answerIds: right, scoring: "partial" };
+    finish(q);
+  });
+
+  return { value: questions, report };
+}
+
+export function toGift(questions: Question[]): Conversion<string> {
+  const report: string[] = [];
+  const blocks: string[] = [];
+
+  for (const q of questions) {
+    if (q.type !== "mcq" && q.type !== "multi" && q.type !== "match") {
+      report.push(unsupportedTypeNote(q));
+      continue;
+    }
+    commonExportNotes(q, report);
+    const lines: string[] = [];
+    if (q.tags?.length) lines.push(`// ${q.tags.map((t) => `[tag:${t.replace(/]/g, "")}]`).join(" ")}`);
+    lines.push(`::${giftEscape(q.id)}::[markdown]${giftEscape(q.prompt)} {`);
+    if (q.type === "match") {
+      for (const p of q.pairs) lines.push(`  =${giftEscape(p.left)} -> ${giftEscape(p.right)}`);
+      for (const d of q.distractors ?? []) lines.push(`  = -> ${giftEscape(d)}`);
+    } else {
+      const right = q.type === "mcq" ? [q.answerId] : q.answerIds;
+      const share = fractionFor(right.length);
+      for (const o of q.options) {
+        const feedback = o.rationale ? `#${giftEscape(o.rationale)}` : "";
+        const marker = q.type === "mcq" ? (right.includes(o.id) ? "=" : "~") : right.includes(o.id) ? `~%${share}%` : `~%-${share}%`;
+        lines.push(`  ${marker}${giftEscape(o.text)}${feedback}`);
+      }
+    }
+    if (q.explanation) lines.push(`  ####${giftEscape(q.explanation)}`);
+    lines.push("}");
+    blocks.push(lines.join("\n"));
+  }
+
+  return { value: blocks.join("\n\n") + "\n", report };
+}
+
+// ---------- Moodle XML ----------
+
+function xmlEscape(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function textElement(tag: string, text: string, format = "markdown"): string {
+  return `<${tag} format="${format}"><text>${xmlEscape(text)}</text></${tag}>`;
+}
+
+function childText(el: Element | null | undefined, note: (msg: string) => void): string {
+  const textEl = el ? [...el.children].find((c) => c.tagName === "text") : undefined;
+  const raw = textEl?.textContent ?? "";
+  return el?.getAttribute("format") === "html" ? htmlToText(raw, note) : raw.trim();
+}
+
+function directChild(el: Element, tag: string): Element | undefined {
+  return [...el.children].find((c) => c.tagName === tag);
+}
+
+export function parseMoodleXml(text: string): Conversion<Question[]> {
+  const report: string[] = [];
+  const questions: Question[] = [];
+  const usedIds = new Set<string>();
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.querySelector("parsererror") || doc.documentElement.tagName !== "quiz") {
+    return { value: [], report: ["The file is not Moodle XML: expected a <quiz> root element."] };
+  }
+
+  [...doc.documentElement.children]
+    .filter((el) => el.tagName === "question")
+    .forEach((el, index) => {
+      const type = el.getAttribute("type") ?? "";
+      const notes: string[] = [];
+      const note = (msg: string) => {
+        if (!notes.includes(msg)) notes.push(msg);
+      };
+      const name = childText(directChild(el, "name"), note) || undefined;
+      const label = questionLabel(index, name);
+
+      if (type === "category") {
+        report.push(`Category “${childText(directChild(el, "category"), note)}” was ignored; each import becomes one bank`);
+        return;
+      }
+      if (type !== "multichoice" && type !== "truefalse" && type !== "matching") {
+        report.push(`${label}: ${type || "untyped"} questions are not supported; not imported`);
+        return;
+      }
+
+      const prompt = childText(directChild(el, "questiontext"), note);
+      const explanation = childText(directChild(el, "generalfeedback"), note) || undefined;
+      const tags = [...el.querySelectorAll(":scope > tags > tag > text")].map((t) => (t.textContent ?? "").trim()).filter(Boolean);
+      const base = { prompt, explanation, tags: tags.length ? tags : undefined };
+      if (el.querySelector(":scope > questiontext > file")) note("embedded files were not imported");
+
+      if (type === "matching") {
+        const pairs: MatchPair[] = [];
+        const distractors: string[] = [];
+        for (const sub of el.querySelectorAll(":scope > subquestion")) {
+          const left = childText(sub, note);
+          const right = childText(directChild(sub, "answer"), note);
+          if (left) pairs.push({ left, right });
+          else if (right) distractors.push(right);
+        }
+        if (pairs.length < 2) {
+          report.push(`${label}: a matching question needs at least 2 pairs; not imported`);
+          return;
+        }
+        questions.push({ ...base, id: pickId(name, index, usedIds), type: "match", pairs, distractors: distractors.length ? distractors : undefined });
+      } else {
+        const answers = [...el.querySelectorAll(":scope > answer")].map((a, k) => ({
+          fraction: Number(a.getAttribute("fraction") ?? "0"),
+          option: {
+            id: type === "truefalse" ? childText(a, note).toLowerCase() || String.fromCharCode(97 + k) : String.fromCharCode(97 + k),
+            text: childText(a, note),
+            rationale: childText(directChild(a, "feedback"), note) || undefined,
+          } as McqOption,
+        }));
+        const right = answers.filter((a) => a.fraction > 0);
+        const single = type === "truefalse" || directChild(el, "single")?.textContent?.trim() !== "false";
+        if (answers.length < 2 || right.length === 0) {
+          report.push(`${label}: needs at least 2 answers with one marked right; not imported`);
+          return;
+        }
+        const options = answers.map((a) => a.option);
+        if (single) {
+          const best = right.reduce((a, b) => (b.fraction > a.fraction ? b : a));
+          if (right.some((a) => a.fraction < 100)) note("partial-credit answers were dropped; only the best answer counts");
+          questions.push({ ...base, id: pickId(name, index, usedIds), type: "mcq", options, answerId: best.option.id });
+        } else {
+          questions.push({ ...base, id: pickId(name, index, usedIds), type: "multi", options, answerIds: right.map((a) => a.option.id), scoring: "partial" });
+        }
+      }
+      for (const n of notes) report.push(`${label}: ${n}`);
+    });
+
+  return { value: questions, report };
+}
+
+export function toMoodleXml(questions: Question[]): Conversion<string> {
+  const report: string[] = [];
+  const out = ['<?xml version="1.0" encoding="UTF-8"?>', "<quiz>"];
+
+  for (const q of questions) {
+    if (q.type !== "mcq" && q.type !== "multi" && q.type !== "match") {
+      report.push(unsupportedTypeNote(q));
+      continue;
+    }
+    commonExportNotes(q, report);
+    const moodleType = q.type === "match" ? "matching" : "multichoice";
+    out.push(`  <question type="${moodleType}">`);
+    out.push(`    <name><text>${xmlEscape(q.id)}</text></name>`);
+    out.push(`    ${textElement("questiontext", q.prompt)}`);
+    if (q.explanation) out.push(`    ${textElement("generalfeedback", q.explanation)}`);
+    out.push("    <defaultgrade>1</defaultgrade>");
+    out.push("    <shuffleanswers>true</shuffleanswers>");
+
+    if (q.type === "match") {
+      for (const p of q.pairs) out.push(`    <subquestion format="markdown"><text>${xmlEscape(p.left)}</text><answer><text>${xmlEscape(p.right)}</text></answer></subquestion>`);
+      for (const d of q.distractors ?? []) out.push(`    <subquestion format="markdown"><text></text><answer><text>${xmlEscape(d)}</text></answer></subquestion>`);
+    } else {
+      const right = q.type === "mcq" ? [q.answerId] : q.answerIds;
+      const share = fractionFor(right.length);
+      out.push(`    <single>${q.type === "mcq"}</single>`);
+      out.push("    <answernumbering>abc</answernumbering>");
+      for (const o of q.options) {
+        const fraction = q.type === "mcq" ? (o.id === q.answerId ? "100" : "0") : right.includes(o.id) ? share : `-${share}`;
+        const feedback = o.rationale ? textElement("feedback", o.rationale) : "";
+        out.push(`    <answer fraction="${fraction}" format="markdown"><text>${xmlEscape(o.text)}</text>${feedback}</answer>`);
+      }
+    }
+    if (q.tags?.length) out.push(`    <tags>${q.tags.map((t) => `<tag><text>${xmlEscape(t)}</text></tag>`).join("")}</tags>`);
+    out.push("  </question>");
+  }
+  out.push("</quiz>");
+
+  return { value: out.join("\n") + "\n", report };
+}
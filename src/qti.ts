@@ -0,0 +1,362 @@
+import type { AppConfig, MatchPair, McqOption, Question, SlideReference } from "./types";
+import { createZip, readZip, type ZipEntry } from "./zip";
+
+// IMS QTI 2.1 content packages: one assessmentItem file per question plus an imsmanifest.xml.
+//   - MCQ and select-all-that-apply questions -> choiceInteraction (single / multiple cardinality)
+//   - match questions -> matchInteraction with the left items in the first set and the right items, plus any
+//     distractors, in the second
+//   - the explanation -> modalFeedback, always shown after responding
+//   - tags and slide references -> LOM metadata on the item's manifest resource (keywords, and a relation whose
+//     identifiers use the catalogs below)
+// Text is written as it is stored, Markdown included. Importing reads the same subset back.
+
+const QTI_NS = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const CP_NS = "http://www.imsglobal.org/xsd/imscp_v1p1";
+const LOM_NS = "http://ltsc.ieee.org/xsd/LOM";
+const ITEM_RESOURCE_TYPE = "imsqti_item_xmlv2p1";
+const SLIDE_CATALOGS = { slideNumber: "slide", slideTitle: "slide-title", section: "section", fileName: "slide-file" } as const;
+
+function xmlEscape(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// QTI identifiers must be XML names; ids that are not are replaced by their position.
+function qtiIdentifier(raw: string, fallback: string): string {
+  return /^[A-Za-z_][\w.-]*$/.test(raw) ? raw : fallback;
+}
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => `<p>${xmlEscape(p.trim()).replace(/\n/g, "<br/>")}</p>`)
+    .join("");
+}
+
+// ---------- export ----------
+
+function itemXml(q: Question, identifier: string, report: string[]): string | null {
+  const out = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NS}" identifier="${identifier}" title="${xmlEscape(q.id)}" adaptive="false" timeDependent="false">`,
+  ];
+  let interaction: string[];
+
+  if (q.type === "mcq" || q.type === "multi") {
+    const choiceIds = q.options.map((o, k) => qtiIdentifier(o.id, `choice${k + 1}`));
+    const idOf = (optionId: string) => choiceIds[q.options.findIndex((o) => o.id === optionId)];
+    const correct = q.type === "mcq" ? [idOf(q.answerId)] : q.answerIds.map(idOf);
+    out.push(
+      `  <responseDeclaration identifier="RESPONSE" cardinality="${q.type === "mcq" ? "single" : "multiple"}" baseType="identifier">`,
+      `    <correctResponse>${correct.map((id) => `<value>${id}</value>`).join("")}</correctResponse>`,
+      "  </responseDeclaration>",
+    );
+    interaction = [
+      `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="${q.type === "mcq" ? 1 : 0}">`,
+      `      <prompt>${xmlEscape(q.prompt)}</prompt>`,
+      ...q.options.map((o, k) => `      <simpleChoice identifier="${choiceIds[k]}">${xmlEscape(o.text)}</simpleChoice>`),
+      "    </choiceInteraction>",
+    ];
+    if (q.options.some((o) => o.rationale)) report.push(`${q.id}: option rationales were not exported`);
+    if (q.type === "multi" && q.scoring === "partial") report.push(`${q.id}: partial scoring is exported as all-or-nothing`);
+  } else if (q.type === "match") {
+    const distractors = q.distractors ?? [];
+    // Pairs may share a right item (many-to-one), so each right is one choice that as many lefts may match.
+    const rights = [...new Set(q.pairs.map((p) => p.right))];
+    const rightId = (right: string) => `R${rights.indexOf(right) + 1}`;
+    out.push(
+      '  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">',
+      `    <correctResponse>${q.pairs.map((p, k) => `<value>L${k + 1} ${rightId(p.right)}</value>`).join("")}</correctResponse>`,
+      "  </responseDeclaration>",
+    );
+    interaction = [
+      `    <matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${q.pairs.length}">`,
+      `      <prompt>${xmlEscape(q.prompt)}</prompt>`,
+      "      <simpleMatchSet>",
+      ...q.pairs.map((p, k) => `        <simpleAssociableChoice identifier="L${k + 1}" matchMax="1">${xmlEscape(p.left)}</simpleAssociableChoice>`),
+      "      </simpleMatchSet>",
+      "      <simpleMatchSet>",
+      ...rights.map(
+        (r) =>
+          `        <simpleAssociableChoice identifier="${rightId(r)}" matchMax="${q.pairs.filter((p) => p.right === r).length}">${xmlEscape(r)}</simpleAssociableChoice>`,
+      ),
+      ...distractors.map((d, k) => `        <simpleAssociableChoice identifier="D${k + 1}" matchMax="1">${xmlEscape(d)}</simpleAssociableChoice>`),
+      "      </simpleMatchSet>",
+      "    </matchInteraction>",
+    ];
+    if (q.pairs.some((p) => p.leftImage || p.rightImage)) report.push(`${q.id}: images on match items were not exported`);
+  } else {
+    report.push(`${q.id}: ${q.type} questions are not part of the exported QTI subset`);
+    return null;
+  }
+  if (q.image || q.template || q.caseId) report.push(`${q.id}: images, templates and case links were not exported`);
+
+  out.push(
+    '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+    '  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+    "  <itemBody>",
+    ...interaction,
+    "  </itemBody>",
+    "  <responseProcessing>",
+    "    <responseCondition>",
+    '      <responseIf><match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match><setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue></responseIf>',
+    '      <responseElse><setOutcomeValue identifier="SCORE"><baseValue baseType="float">0</baseValue></setOutcomeValue></responseElse>',
+    "    </responseCondition>",
+  );
+  if (q.explanation) {
+    out.push(
+      '    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>',
+      "  </responseProcessing>",
+      `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${paragraphs(q.explanation)}</modalFeedback>`,
+    );
+  } else {
+    out.push("  </responseProcessing>");
+  }
+  out.push("</assessmentItem>");
+  return out.join("\n") + "\n";
+}
+
+function langString(text: string): string {
+  return `<imsmd:string>${xmlEscape(text)}</imsmd:string>`;
+}
+
+function resourceMetadata(q: Question): string {
+  const general = (q.tags ?? []).map((t) => `<imsmd:keyword>${langString(t)}</imsmd:keyword>`).join("");
+  let relation = "";
+  if (q.slideRef) {
+    const ref = q.slideRef;
+    const identifiers = (Object.keys(SLIDE_CATALOGS) as Array<keyof SlideReference>)
+      .filter((field) => ref[field] !== undefined && ref[field] !== "")
+      .map((field) => `<imsmd:identifier><imsmd:catalog>${SLIDE_CATALOGS[field]}</imsmd:catalog><imsmd:entry>${xmlEscape(String(ref[field]))}</imsmd:entry></imsmd:identifier>`)
+      .join("");
+    const description = `Slide ${ref.slideNumber}${ref.slideTitle ? `: ${ref.slideTitle}` : ""}`;
+    relation =
+      "<imsmd:relation><imsmd:kind><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>isbasedon</imsmd:value></imsmd:kind>" +
+      `<imsmd:resource>${identifiers}<imsmd:description>${langString(description)}</imsmd:description></imsmd:resource></imsmd:relation>`;
+  }
+  if (!general && !relation) return "";
+  return `<metadata><imsmd:lom>${general ? `<imsmd:general>${general}</imsmd:general>` : ""}${relation}</imsmd:lom></metadata>`;
+}
+
+// Builds the package zip. Questions outside the subset are left out and listed in the report.
+export function createQtiPackage(config: AppConfig): { value: Blob; report: string[] } {
+  const report: string[] = [];
+  const encoder = new TextEncoder();
+  const files: ZipEntry[] = [];
+  const resources: string[] = [];
+
+  config.questions.forEach((q, index) => {
+    const identifier = qtiIdentifier(q.id, `item${index + 1}`);
+    const xml = itemXml(q, identifier, report);
+    if (!xml) return;
+    const href = `items/${identifier}.xml`;
+    files.push({ name: href, data: encoder.encode(xml) });
+    resources.push(
+      `    <resource identifier="RES-${identifier}" type="${ITEM_RESOURCE_TYPE}" href="${href}">${resourceMetadata(q)}<file href="${href}"/></resource>`,
+    );
+  });
+  if (config.cases?.length) report.push("Case studies were not exported; their questions were exported on their own");
+
+  const manifest = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<manifest xmlns="${CP_NS}" xmlns:imsmd="${LOM_NS}" identifier="MANIFEST-1">`,
+    "  <metadata>",
+    "    <schema>QTIv2.1 Package</schema>",
+    "    <schemaversion>1.0.0</schemaversion>",
+    `    <imsmd:lom><imsmd:general><imsmd:title>${langString(config.title)}</imsmd:title></imsmd:general></imsmd:lom>`,
+    "  </metadata>",
+    "  <organizations/>",
+    "  <resources>",
+    ...resources,
+    "  </resources>",
+    "</manifest>",
+  ].join("\n");
+  files.unshift({ name: "imsmanifest.xml", data: encoder.encode(manifest + "\n") });
+
+  return { value: createZip(files), report };
+}
+
+// ---------- import ----------
+
+function byName(el: Element | Document, localName: string): Element[] {
+  return [...el.getElementsByTagNameNS("*", localName)];
+}
+
+function firstByName(el: Element | Document, localName: string): Element | undefined {
+  return el.getElementsByTagNameNS("*", localName)[0];
+}
+
+// Text of an XHTML fragment with paragraphs and line breaks kept; nested feedback is left out.
+function blockText(el: Element): string {
+  let text = "";
+  for (const node of el.childNodes) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent ?? "";
+    } else if (node instanceof Element) {
+      if (node.localName === "br") text += "\n";
+      else if (node.localName === "feedbackInline" || node.localName === "feedbackBlock") continue;
+      else if (["p", "div", "li", "h1", "h2", "h3", "h4", "h5", "h6"].includes(node.localName)) text += `\n\n${blockText(node)}\n\n`;
+      else text += blockText(node);
+    }
+  }
+  return text.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+function readMetadata(resource: Element): { tags?: string[]; slideRef?: SlideReference } {
+  const tags = byName(resource, "keyword").map((k) => (k.textContent ?? "").trim()).filter(Boolean);
+  const entries = new Map<string, string>();
+  for (const id of byName(resource, "identifier")) {
+    const catalog = firstByName(id, "catalog")?.textContent?.trim();
+    const entry = firstByName(id, "entry")?.textContent?.trim();
+    if (catalog && entry) entries.set(catalog, entry);
+  }
+  const slideNumber = Number(entries.get(SLIDE_CATALOGS.slideNumber));
+  const slideRef =
+    Number.isInteger(slideNumber) && slideNumber > 0
+      ? {
+          slideNumber,
+          slideTitle: entries.get(SLIDE_CATALOGS.slideTitle),
+          section: entries.get(SLIDE_CATALOGS.section),
+          fileName: entries.get(SLIDE_CATALOGS.fileName),
+        }
+      : undefined;
+  return { tags: tags.length ? tags : undefined, slideRef };
+}
+
+const INTERACTIONS = [
+  "choiceInteraction",
+  "matchInteraction",
+  "orderInteraction",
+  "associateInteraction",
+  "gapMatchInteraction",
+  "inlineChoiceInteraction",
+  "textEntryInteraction",
+  "extendedTextInteraction",
+  "hottextInteraction",
+  "hotspotInteraction",
+  "selectPointInteraction",
+  "graphicOrderInteraction",
+  "graphicAssociateInteraction",
+  "graphicGapMatchInteraction",
+  "positionObjectInteraction",
+  "sliderInteraction",
+  "drawingInteraction",
+  "uploadInteraction",
+  "mediaInteraction",
+  "customInteraction",
+];
+
+function readItem(doc: Document, base: Pick<Question, "id" | "tags" | "slideRef">, label: string, report: string[]): Question | null {
+  const item = doc.documentElement;
+  const body = firstByName(item, "itemBody");
+  const interactions = body ? INTERACTIONS.flatMap((name) => byName(body, name)) : [];
+  if (!body || interactions.length === 0) {
+    report.push(`${label}: no interaction found; not imported`);
+    return null;
+  }
+  if (interactions.length > 1) {
+    report.push(`${label}: items with more than one interaction are not supported; not imported`);
+    return null;
+  }
+  const interaction = interactions[0];
+  if (interaction.localName !== "choiceInteraction" && interaction.localName !== "matchInteraction") {
+    report.push(`${label}: ${interaction.localName} is not supported; not imported`);
+    return null;
+  }
+
+  const responseId = interaction.getAttribute("responseIdentifier");
+  const declaration = byName(item, "responseDeclaration").find((d) => d.getAttribute("identifier") === responseId);
+  const correct = declaration ? byName(declaration, "correctResponse").flatMap((c) => byName(c, "value")).map((v) => (v.textContent ?? "").trim()) : [];
+  if (correct.length === 0) {
+    report.push(`${label}: no correct response is declared; not imported`);
+    return null;
+  }
+
+  const lead = [...body.children].filter((c) => c !== interaction && !c.contains(interaction)).map(blockText);
+  const promptEl = [...interaction.children].find((c) => c.localName === "prompt");
+  const prompt = [...lead, promptEl ? blockText(promptEl) : ""].filter(Boolean).join("\n\n");
+  const feedback = byName(item, "modalFeedback").map(blockText).filter(Boolean);
+  const explanation = feedback.length ? feedback.join("\n\n") : undefined;
+  if (byName(item, "feedbackInline").length || byName(item, "feedbackBlock").length) report.push(`${label}: inline feedback was not imported`);
+
+  if (interaction.localName === "choiceInteraction") {
+    const options: McqOption[] = byName(interaction, "simpleChoice").map((c) => ({ id: c.getAttribute("identifier") ?? "", text: blockText(c) }));
+    if (options.length < 2) {
+      report.push(`${label}: fewer than 2 choices; not imported`);
+      return null;
+    }
+    if (declaration?.getAttribute("cardinality") === "single") return { ...base, type: "mcq", prompt, explanation, options, answerId: correct[0] };
+    return { ...base, type: "multi", prompt, explanation, options, answerIds: correct };
+  }
+
+  const sets = byName(interaction, "simpleMatchSet");
+  if (sets.length !== 2) {
+    report.push(`${label}: a match interaction needs exactly 2 sets; not imported`);
+    return null;
+  }
+  const textOf = (set: Element) => new Map(byName(set, "simpleAssociableChoice").map((c) => [c.getAttribute("identifier") ?? "", blockText(c)]));
+  const lefts = textOf(sets[0]);
+  const rights = textOf(sets[1]);
+  const used = new Set<string>();
+  const pairs: MatchPair[] = [];
+  for (const value of correct) {
+    const [left, right] = value.split(/\s+/);
+    if (!lefts.has(left) || !rights.has(right)) continue;
+    pairs.push({ left: lefts.get(left) ?? "", right: rights.get(right) ?? "" });
+    used.add(right);
+  }
+  if (pairs.length < 2) {
+    report.push(`${label}: fewer than 2 correct pairs; not imported`);
+    return null;
+  }
+  const distractors = [...rights].filter(([id]) => !used.has(id)).map(([, text]) => text);
+  return { ...base, type: "match", prompt, explanation, pairs, distractors: distractors.length ? distractors : undefined };
+}
+
+// Reads the items the manifest lists, in manifest order. Item titles become question ids when they are free.
+export async function readQtiPackage(
+  buffer: ArrayBuffer,
+): Promise<{ ok: true; value: { title?: string; questions: Question[]; report: string[] } } | { ok: false; error: string }> {
+  const zip = await readZip(buffer);
+  if (!zip.ok) return zip;
+  const files = zip.value;
+  const decoder = new TextDecoder();
+  const parse = (path: string) => {
+    const data = files.get(path);
+    if (!data) return null;
+    const doc = new DOMParser().parseFromString(decoder.decode(data), "application/xml");
+    return doc.getElementsByTagName("parsererror").length ? null : doc;
+  };
+
+  const manifest = parse("imsmanifest.xml");
+  if (!manifest) return { ok: false, error: "This zip has no readable imsmanifest.xml, so it is not a content package." };
+
+  const report: string[] = [];
+  const questions: Question[] = [];
+  const usedIds = new Set<string>();
+  const packageMetadata = [...manifest.documentElement.children].find((c) => c.localName === "metadata");
+  const title = packageMetadata ? firstByName(packageMetadata, "title")?.textContent?.trim() || undefined : undefined;
+
+  byName(manifest, "resource").forEach((resource, index) => {
+    const type = resource.getAttribute("type") ?? "";
+    const href = resource.getAttribute("href") ?? "";
+    if (!/^imsqti_item_xmlv2p/.test(type)) {
+      if (/^imsqti_test/.test(type)) report.push(`The test “${href}” was ignored; its items are imported in manifest order`);
+      return;
+    }
+    const label = `Item ${index + 1} (${href})`;
+    const doc = parse(href);
+    if (!doc) {
+      report.push(`${label}: the file is missing or is not valid XML; not imported`);
+      return;
+    }
+    const name = doc.documentElement.getAttribute("title") || doc.documentElement.getAttribute("identifier") || "";
+    let id = name && !usedIds.has(name) ? name : `q${index + 1}`;
+    for (let n = 2; usedIds.has(id); n++) id = `q${index + 1}-${n}`;
+    const question = readItem(doc, { id, ...readMetadata(resource) }, label, report);
+    if (!question) return;
+    usedIds.add(id);
+    questions.push(question);
+  });
+
+  return { ok: true, value: { title, questions, report } };
+}
@@ -0,0 +1,323 @@
+import type { AppConfig, McqOption, MatchPair, Question, SlideReference } from "./types";
+
+// A plain-text way to write a bank, as an alternative to JSON. See QUIZ_TEXT_EXAMPLE.
+// One starred option makes an MCQ, several make a select-all-that-apply question (@scoring partial allows
+// partial credit). Options written "left => right" make a match question; options without "=>" are then
+// distractors. @id overrides the default id, which is q1, q2, … by position.
+
+export const QUIZ_TEXT_EXAMPLE = `# Cardiology basics
+Optional instructions, up to the first question.
+
+1. Which drug class ends in -olol?
+   Indented lines continue the prompt (Markdown is fine).
+a) ACE inhibitors
+*b) Beta blockers
+  > Indented ">" lines after an option are its rationale.
+c) Statins
+> ">" lines are the explanation.
+@slide 12 "Beta blockers" section "Week 3" file "cardio.pdf"
+@tags pharmacology, cardio
+
+2. Which are vital signs? (several stars: select all that apply)
+*a) Heart rate
+*b) Blood pressure
+c) Mood
+@id vitals
+@scoring partial
+
+3. Match each drug to its class.
+a) Metoprolol => Beta blocker
+b) Atenolol => Beta blocker
+c) Lisinopril => ACE inhibitor
+d) Statin
+`;
+
+export type TextIssue = { line: number; message: string };
+
+type OptionDraft = { line: number; letter: string; text: string; correct: boolean; rationale: string[] };
+
+type QuestionDraft = {
+  line: number;
+  prompt: string[];
+  options: OptionDraft[];
+  explanation: string[];
+  slideRef?: SlideReference;
+  tags?: string[];
+  id?: { value: string; line: number };
+  scoring?: { value: string; line: number };
+};
+
+const QUESTION_START = /^(\d+)[.)]\s+(.*)$/;
+const OPTION_LINE = /^(\*)?([a-zA-Z])[).]\s+(.*)$/;
+const PAIR_SEPARATOR = "=>";
+
+// Reads `"..."` strings with backslash escapes, optionally preceded by a keyword, e.g. `section "Week 3"`.
+function parseSlideArgs(rest: string): Array<{ key: string; value: string }> | null {
+  const args: Array<{ key: string; value: string }> = [];
+  const token = /\s*(?:([a-z]+)\s+)?"((?:[^"\\]|\\.)*)"/y;
+  let at = 0;
+  while (at < rest.length) {
+    if (!rest.slice(at).trim()) break;
+    token.lastIndex = at;
+    const m = token.exec(rest);
+    if (!m) return null;
+    args.push({ key: m[1] ?? "", value: m[2].replace(/\\(.)/g, "$1") });
+    at = token.lastIndex;
+  }
+  return args;
+}
+
+export function parseQuizText(text: string): { ok: true; value: AppConfig } | { ok: false; errors: TextIssue[] } {
+  const errors: TextIssue[] = [];
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  let title: string | undefined;
+  const instructions: string[] = [];
+  const drafts: QuestionDraft[] = [];
+  let current: QuestionDraft | null = null;
+  // What the last line added to, so the next line knows what it continues.
+  let stage: "prompt" | "options" | "after" = "prompt";
+
+  lines.forEach((raw, i) => {
+    const line = i + 1;
+    const trimmed = raw.trim();
+    const indented = /^\s/.test(raw) && trimmed !== "";
+
+    if (!current) {
+      if (!indented && QUESTION_START.test(trimmed)) {
+        // fall through to start the first question
+      } else if (title === undefined && instructions.length === 0 && trimmed.startsWith("# ")) {
+        title = trimmed.slice(2).trim();
+        return;
+      } else if ((trimmed.startsWith("@") || trimmed.startsWith(">")) && !indented) {
+        errors.push({ line, message: "This line belongs to a question, but no question has started yet. Start one with “1. ”." });
+        return;
+      } else {
+        if (trimmed || instructions.length > 0) instructions.push(trimmed);
+        return;
+      }
+    }
+
+    const question = !indented ? QUESTION_START.exec(trimmed) : null;
+    if (question) {
+      current = { line, prompt: [question[2]], options: [], explanation: [] };
+      drafts.push(current);
+      stage = "prompt";
+      return;
+    }
+    if (!current) return;
+
+    if (trimmed === "") {
+      if (stage === "prompt") current.prompt.push("");
+      return;
+    }
+
+    if (stage === "prompt" && indented) {
+      current.prompt.push(trimmed);
+      return;
+    }
+
+    const option = !indented ? OPTION_LINE.exec(trimmed) : null;
+    if (option) {
+      if (stage === "after") errors.push({ line, message: "Options must come before the explanation and @ lines." });
+      const letter = option[2].toLowerCase();
+      if (current.options.some((o) => o.letter === letter)) errors.push({ line, message: `Option ${letter}) is listed twice.` });
+      current.options.push({ line, letter, text: option[3].trim(), correct: !!option[1], rationale: [] });
+      stage = "options";
+      return;
+    }
+
+    if (trimmed.startsWith(">")) {
+      const content = trimmed.replace(/^>\s?/, "");
+      const lastOption = current.options[current.options.length - 1];
+      if (indented && stage === "options" && lastOption) {
+        lastOption.rationale.push(content);
+      } else {
+        current.explanation.push(content);
+        stage = "after";
+      }
+      return;
+    }
+
+    if (trimmed.startsWith("@")) {
+      stage = "after";
+      const [, name, rest = ""] = /^@(\S+)\s*(.*)$/.exec(trimmed) ?? [];
+      if (name === "slide") {
+        const m = /^(\d+)(.*)$/.exec(rest);
+        const args = m ? parseSlideArgs(m[2]) : null;
+        if (!m || !args || args.filter((a) => a.key === "").length > 1 || args.some((a) => a.key && a.key !== "section" && a.key !== "file")) {
+          errors.push({ line, message: 'Write slide references as @slide 12 "Title", optionally followed by section "…" and file "…".' });
+          return;
+        }
+        current.slideRef = {
+          slideNumber: Number(m[1]),
+          slideTitle: args.find((a) => a.key === "")?.value,
+          section: args.find((a) => a.key === "section")?.value,
+          fileName: args.find((a) => a.key === "file")?.value,
+        };
+      } else if (name === "tags") {
+        current.tags = rest.split(",").map((t) => t.trim()).filter(Boolean);
+      } else if (name === "id") {
+        if (!rest) errors.push({ line, message: "@id needs a value." });
+        else current.id = { value: rest, line };
+      } else if (name === "scoring") {
+        current.scoring = { value: rest, line };
+      } else {
+        errors.push({ line, message: `Unknown directive @${name}. Use @slide, @tags, @id or @scoring.` });
+      }
+      return;
+    }
+
+    if (stage === "prompt") {
+      current.prompt.push(trimmed);
+      return;
+    }
+    errors.push({ line, message: "Unexpected text. Options start with a letter, e.g. “a) ”, and explanation lines with “>”." });
+  });
+
+  const questions: Question[] = [];
+  const seenIds = new Map<string, number>();
+  drafts.forEach((d, index) => {
+    const before = errors.length;
+    const prompt = d.prompt.join("\n").trim();
+    if (!prompt) errors.push({ line: d.line, message: "The question has no prompt." });
+
+    const id = d.id?.value ?? `q${index + 1}`;
+    const idLine = d.id?.line ?? d.line;
+    if (seenIds.has(id)) errors.push({ line: idLine, message: `Id "${id}" is already used by the question on line ${seenIds.get(id)}.` });
+    else seenIds.set(id, idLine);
+
+    const base = {
+      id,
+      prompt,
+      explanation: d.explanation.length ? d.explanation.join("\n").trim() : undefined,
+      tags: d.tags,
+      slideRef: d.slideRef,
+    };
+
+    const pairOptions = d.options.filter((o) => o.text.includes(PAIR_SEPARATOR));
+    if (pairOptions.length > 0) {
+      for (const o of d.options) {
+        if (o.correct) errors.push({ line: o.line, message: "Match pairs need no *; remove it." });
+        if (o.rationale.length) errors.push({ line: o.line, message: "Only MCQ options can have rationales." });
+      }
+      const pairs: MatchPair[] = pairOptions.map((o) => {
+        const at = o.text.indexOf(PAIR_SEPARATOR);
+        const pair = { left: o.text.slice(0, at).trim(), right: o.text.slice(at + PAIR_SEPARATOR.length).trim() };
+        if (!pair.left || !pair.right) errors.push({ line: o.line, message: `Write a pair as “left ${PAIR_SEPARATOR} right”.` });
+        return pair;
+      });
+      if (pairs.length < 2) errors.push({ line: d.line, message: `A match question needs at least 2 “left ${PAIR_SEPARATOR} right” options.` });
+      if (d.scoring) errors.push({ line: d.scoring.line, message: "@scoring only applies to questions with several correct options." });
+      const distractors = d.options.filter((o) => !o.text.includes(PAIR_SEPARATOR)).map((o) => o.text);
+      if (errors.length === before) questions.push({ ...base, type: "match", pairs, distractors: distractors.length ? distractors : undefined });
+      return;
+    }
+
+    const options: McqOption[] = d.options.map((o) => ({
+      id: o.letter,
+      text: o.text,
+      rationale: o.rationale.length ? o.rationale.join("\n") : undefined,
+    }));
+    const correct = d.options.filter((o) => o.correct).map((o) => o.letter);
+    if (options.length < 2) errors.push({ line: d.line, message: "The question needs at least 2 options, e.g. “a) …”." });
+    else if (correct.length === 0) errors.push({ line: d.line, message: "Mark the correct option with *, e.g. “*b) …”." });
+
+    if (correct.length > 1) {
+      const scoring = d.scoring;
+      if (scoring && scoring.value !== "partial" && scoring.value !== "all-or-nothing") {
+        errors.push({ line: scoring.line, message: "@scoring must be partial or all-or-nothing." });
+      }
+      if (errors.length === before) {
+        questions.push({ ...base, type: "multi", options, answerIds: correct, scoring: scoring?.value as "partial" | "all-or-nothing" | undefined });
+      }
+      return;
+    }
+    if (d.scoring) errors.push({ line: d.scoring.line, message: "@scoring only applies to questions with several correct options." });
+    if (errors.length === before) questions.push({ ...base, type: "mcq", options, answerId: correct[0] });
+  });
+
+  if (drafts.length === 0 && errors.length === 0) errors.push({ line: 1, message: "No questions found. Start one with “1. ”." });
+  if (errors.length > 0) return { ok: false, errors: errors.sort((a, b) => a.line - b.line) };
+
+  const instructionText = instructions.join("\n").trim();
+  return { ok: true, value: { title: title || "Untitled quiz", instructions: instructionText || undefined, questions } };
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+// Why a question cannot be written in the text format, or null if it can.
+function unsupportedReason(q: Question): string | null {
+  if (q.type !== "mcq" && q.type !== "multi" && q.type !== "match") return `${q.type} questions have no text form`;
+  if (q.template) return "templated questions have no text form";
+  if (q.caseId) return "case questions have no text form";
+  if (q.image) return "question images have no text form";
+  if (q.tags?.some((t) => t.includes(","))) return "a tag contains a comma";
+  const optionTexts = q.type === "match" ? q.pairs.flatMap((p) => [p.left, p.right]).concat(q.distractors ?? []) : q.options.map((o) => o.text);
+  if (optionTexts.some((t) => t.includes("\n"))) return "an option spans several lines";
+  if (q.type === "match") {
+    if (q.pairs.some((p) => p.left.includes(PAIR_SEPARATOR) || p.leftImage || p.rightImage)) return "a pair has images or contains “=>”";
+    if ((q.distractors ?? []).some((t) => t.includes(PAIR_SEPARATOR))) return "a distractor contains “=>”";
+    if (q.pairs.length + (q.distractors?.length ?? 0) > 26) return "more than 26 options";
+    return null;
+  }
+  if (q.options.length > 26) return "more than 26 options";
+  if (q.options.some((o) => o.image || o.text.includes(PAIR_SEPARATOR))) return "an option has an image or contains “=>”";
+  return null;
+}
+
+// Writes the bank in the text format. Questions the format cannot express are left out and listed in `skipped`.
+export function configToText(config: AppConfig): { text: string; skipped: string[] } {
+  const skipped: string[] = [];
+  const out: string[] = [`# ${config.title}`];
+  // Instruction lines that would read as a question start, an @ line or an explanation are indented, which the
+  // parser keeps as instructions and trims away.
+  for (const l of config.instructions?.split("\n") ?? []) {
+    const trimmed = l.trim();
+    out.push(QUESTION_START.test(trimmed) || /^[@>]/.test(trimmed) ? `   ${trimmed}` : l);
+  }
+
+  let n = 0;
+  for (const q of config.questions) {
+    const reason = unsupportedReason(q);
+    if (reason) {
+      skipped.push(`${q.id}: ${reason}`);
+      continue;
+    }
+    n++;
+    out.push("");
+    const [first, ...rest] = q.prompt.trim().split("\n");
+    out.push(`${n}. ${first}`);
+    for (const l of rest) out.push(l.trim() ? `   ${l}` : "");
+
+    const letter = (i: number) => String.fromCharCode(97 + i);
+    if (q.type === "match") {
+      q.pairs.forEach((p, i) => out.push(`${letter(i)}) ${p.left} ${PAIR_SEPARATOR} ${p.right}`));
+      (q.distractors ?? []).forEach((t, i) => out.push(`${letter(q.pairs.length + i)}) ${t}`));
+    } else if (q.type === "mcq" || q.type === "multi") {
+      const correct = q.type === "mcq" ? [q.answerId] : q.answerIds;
+      q.options.forEach((o, i) => {
+        out.push(`${correct.includes(o.id) ? "*" : ""}${letter(i)}) ${o.text}`);
+        for (const l of o.rationale?.split("\n") ?? []) out.push(`  > ${l}`.trimEnd());
+      });
+    }
+
+    for (const l of q.explanation?.split("\n") ?? []) out.push(`> ${l}`.trimEnd());
+    if (q.slideRef) {
+      const { slideNumber, slideTitle, section, fileName } = q.slideRef;
+      const parts = [`@slide ${slideNumber}`];
+      if (slideTitle !== undefined) parts.push(quote(slideTitle));
+      if (section !== undefined) parts.push(`section ${quote(section)}`);
+      if (fileName !== undefined) parts.push(`file ${quote(fileName)}`);
+      out.push(parts.join(" "));
+    }
+    if (q.tags?.length) out.push(`@tags ${q.tags.join(", ")}`);
+    if (q.id !== `q${n}`) out.push(`@id ${q.id}`);
+    if (q.type === "multi" && q.scoring) out.push(`@scoring ${q.scoring}`);
+  }
+  if (config.cases?.length) skipped.push("cases: the text format has no case studies");
+  if (config.assets && Object.keys(config.assets).length) skipped.push("assets: the text format has no images");
+
+  return { text: out.join("\n") + "\n", skipped };
+}
@@ -0,0 +1,52 @@
+import type { AppConfig } from "./types";
+
+// Share links carry a whole bank in the URL fragment, deflated and base64url-encoded. The fragment never
+// reaches a server, so sharing uploads nothing. The "1." prefix is the encoding version.
+
+const SHARE_PREFIX = "#bank=";
+const ENCODING_VERSION = "1.";
+
+// Some chat and email apps cut off longer links.
+export const SHARE_WARN_LENGTH = 2000;
+// Past this a link is unwieldy anywhere, so a file is offered instead.
+export const SHARE_MAX_LENGTH = 32000;
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes.slice().buffer]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+// `baseUrl` is the page address without a fragment.
+export async function createShareLink(config: AppConfig, baseUrl: string): Promise<string> {
+  const packed = await pipe(new TextEncoder().encode(JSON.stringify(config)), new CompressionStream("deflate-raw"));
+  return `${baseUrl}${SHARE_PREFIX}${ENCODING_VERSION}${toBase64Url(packed)}`;
+}
+
+export function hasSharedBank(hash: string): boolean {
+  return hash.startsWith(SHARE_PREFIX);
+}
+
+// Decodes the fragment back to JSON. The result is unchecked and still needs validating as a config.
+export async function readShareLink(hash: string): Promise<{ ok: true; value: unknown } | { ok: false; error: string }> {
+  const payload = hash.slice(SHARE_PREFIX.length);
+  if (!payload.startsWith(ENCODING_VERSION)) {
+    return { ok: false, error: "This share link was made by a newer version of the app." };
+  }
+  try {
+    const bytes = await pipe(fromBase64Url(payload.slice(ENCODING_VERSION.length)), new DecompressionStream("deflate-raw"));
+    return { ok: true, value: JSON.parse(new TextDecoder().decode(bytes)) };
+  } catch {
+    return { ok: false, error: "This share link is incomplete or damaged. Ask for the link again, or for the bank as a file." };
+  }
+}
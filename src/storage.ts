@@ -0,0 +1,267 @@
+import type { AppConfig, Attempt, BankEntry, Library, SessionState } from "./types";
+
+// IndexedDB persistence for the bank library. Each part of a bank lives in its own store so an answer
+// click only rewrites that bank's progress, never its (possibly image-heavy) config:
+//   banks    - name and dates (BankMeta)
+//   configs  - the AppConfig
+//   progress - settings and progress
+//   history  - one row per attempt, keyed by bank and position in that bank's history
+//   meta     - small key/value records such as the active bank id
+//   recovery - copies of stored data that could not be read, kept so nothing is silently thrown away
+
+const DB_NAME = "quizzer";
+const DB_VERSION = 3;
+
+type BankMeta = Omit<BankEntry, "session">;
+type ConfigRecord = { bankId: string; config: AppConfig };
+// Records written before sessions were versioned have no schemaVersion.
+type ProgressRecord = { bankId: string; schemaVersion?: number; settings: SessionState["settings"]; progress: SessionState["progress"] };
+export type HistoryRecord = { bankId: string; seq: number; attempt: Attempt };
+export type RecoveryRecord = { id?: number; savedAt: number; source: string; reason: string; data: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (e) => {
+        const db = req.result;
+        if (e.oldVersion < 1) {
+          db.createObjectStore("banks", { keyPath: "id" });
+          db.createObjectStore("configs", { keyPath: "bankId" });
+          db.createObjectStore("progress", { keyPath: "bankId" });
+          db.createObjectStore("meta");
+        }
+        if (e.oldVersion < 2) db.createObjectStore("recovery", { keyPath: "id", autoIncrement: true });
+        if (e.oldVersion < 3) upgradeHistoryStore(db, req.transaction!);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error("Storage is blocked by another open tab. Close other tabs and reload."));
+    });
+    // Let a later call retry instead of caching the failure forever.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Version 3 keys history rows by [bankId, seq] instead of an auto-increment number, so writing a bank's history
+// twice is harmless and a bank's rows can be deleted by key range. Existing rows are renumbered in their
+// original order.
+function upgradeHistoryStore(db: IDBDatabase, tx: IDBTransaction) {
+  if (!db.objectStoreNames.contains("history")) {
+    db.createObjectStore("history", { keyPath: ["bankId", "seq"] });
+    return;
+  }
+  const rowsReq = tx.objectStore("history").getAll() as IDBRequest<Array<{ bankId: string; attempt: Attempt }>>;
+  rowsReq.onsuccess = () => {
+    db.deleteObjectStore("history");
+    const store = db.createObjectStore("history", { keyPath: ["bankId", "seq"] });
+    const nextSeq = new Map<string, number>();
+    for (const row of rowsReq.result) {
+      const seq = nextSeq.get(row.bankId) ?? 0;
+      nextSeq.set(row.bankId, seq + 1);
+      store.put({ bankId: row.bankId, seq, attempt: row.attempt } satisfies HistoryRecord);
+    }
+  };
+}
+
+function requestResult<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Storage transaction was aborted."));
+  });
+}
+
+function bankMeta(bank: BankEntry): BankMeta {
+  return { id: bank.id, name: bank.name, createdAt: bank.createdAt, lastStudiedAt: bank.lastStudiedAt };
+}
+
+function progressRecord(bank: BankEntry): ProgressRecord {
+  const { schemaVersion, settings, progress } = bank.session;
+  return { bankId: bank.id, schemaVersion, settings, progress };
+}
+
+function putHistory(tx: IDBTransaction, bank: BankEntry, from: number) {
+  const store = tx.objectStore("history");
+  const history = bank.session.history;
+  for (let seq = from; seq < history.length; seq++) store.put({ bankId: bank.id, seq, attempt: history[seq] } satisfies HistoryRecord);
+}
+
+function putBank(tx: IDBTransaction, bank: BankEntry) {
+  tx.objectStore("banks").put(bankMeta(bank));
+  tx.objectStore("configs").put({ bankId: bank.id, config: bank.session.config } satisfies ConfigRecord);
+  tx.objectStore("progress").put(progressRecord(bank));
+  putHistory(tx, bank, 0);
+}
+
+// Returns null when nothing has been stored yet. Banks missing a config or progress record are skipped.
+// Sessions come back exactly as stored, possibly in an older schema; run them through migrateSession.
+export async function loadLibraryFromDb(): Promise<Library | null> {
+  const db = await openDb();
+  const tx = db.transaction(["banks", "configs", "progress", "history", "meta"], "readonly");
+  const [metas, configs, progress, history, activeBankId] = await Promise.all([
+    requestResult(tx.objectStore("banks").getAll() as IDBRequest<BankMeta[]>),
+    requestResult(tx.objectStore("configs").getAll() as IDBRequest<ConfigRecord[]>),
+    requestResult(tx.objectStore("progress").getAll() as IDBRequest<ProgressRecord[]>),
+    requestResult(tx.objectStore("history").getAll() as IDBRequest<HistoryRecord[]>),
+    requestResult(tx.objectStore("meta").get("activeBankId") as IDBRequest<string | undefined>),
+  ]);
+
+  const configById = new Map(configs.map((c) => [c.bankId, c.config]));
+  const progressById = new Map(progress.map((p) => [p.bankId, p]));
+  // Rows come back in key order, so each bank's attempts are already oldest first.
+  const historyById = new Map<string, Attempt[]>();
+  for (const row of history) {
+    const list = historyById.get(row.bankId) ?? [];
+    list.push(row.attempt);
+    historyById.set(row.bankId, list);
+  }
+  const banks: BankEntry[] = [];
+  for (const meta of metas.sort((a, b) => a.createdAt - b.createdAt)) {
+    const config = configById.get(meta.id);
+    const p = progressById.get(meta.id);
+    if (!config || !p) continue;
+    banks.push({
+      ...meta,
+      session: { schemaVersion: p.schemaVersion ?? 1, config, settings: p.settings, progress: p.progress, history: historyById.get(meta.id) ?? [] },
+    });
+  }
+  if (banks.length === 0) return null;
+  return { activeBankId: activeBankId ?? banks[0].id, banks };
+}
+
+// Library writes still in flight, so a tab handing the library to another tab can wait for them first.
+const pendingWrites = new Set<Promise<void>>();
+
+function trackWrite(write: Promise<void>): Promise<void> {
+  pendingWrites.add(write);
+  const done = () => pendingWrites.delete(write);
+  write.then(done, done);
+  return write;
+}
+
+export function whenWritesSettle(): Promise<void> {
+  return Promise.allSettled([...pendingWrites]).then(() => undefined);
+}
+
+// Replaces everything stored (library and history) with this library. Used for migration and restores.
+export function saveLibraryToDb(library: Library): Promise<void> {
+  return trackWrite(writeLibrary(library));
+}
+
+async function writeLibrary(library: Library): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["banks", "configs", "progress", "history", "meta"], "readwrite");
+  for (const name of ["banks", "configs", "progress", "history"]) tx.objectStore(name).clear();
+  for (const bank of library.banks) putBank(tx, bank);
+  tx.objectStore("meta").put(library.activeBankId, "activeBankId");
+  await transactionDone(tx);
+}
+
+// Writes only what changed between two library states. Updates are immutable, so an unchanged config or
+// progress object keeps its identity and is skipped. History only ever grows, so just the new tail is added,
+// except after a migration: that may rewrite rows already stored, so the bank's whole history is written again.
+// With no previous state, every bank is written.
+export function saveLibraryChanges(prev: Library | null, next: Library): Promise<void> {
+  return trackWrite(writeLibraryChanges(prev, next));
+}
+
+async function writeLibraryChanges(prev: Library | null, next: Library): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["banks", "configs", "progress", "history", "meta"], "readwrite");
+  const prevById = new Map(prev?.banks.map((b) => [b.id, b]));
+
+  for (const bank of next.banks) {
+    const old = prevById.get(bank.id);
+    prevById.delete(bank.id);
+    if (!old) {
+      putBank(tx, bank);
+      continue;
+    }
+    if (old.name !== bank.name || old.lastStudiedAt !== bank.lastStudiedAt) tx.objectStore("banks").put(bankMeta(bank));
+    if (old.session.config !== bank.session.config) {
+      tx.objectStore("configs").put({ bankId: bank.id, config: bank.session.config } satisfies ConfigRecord);
+    }
+    if (
+      old.session.progress !== bank.session.progress ||
+      old.session.settings !== bank.session.settings ||
+      old.session.schemaVersion !== bank.session.schemaVersion
+    ) {
+      tx.objectStore("progress").put(progressRecord(bank));
+    }
+    if (old.session.schemaVersion !== bank.session.schemaVersion) {
+      tx.objectStore("history").delete(IDBKeyRange.bound([bank.id, 0], [bank.id, Infinity]));
+      putHistory(tx, bank, 0);
+    } else if (old.session.history !== bank.session.history) {
+      putHistory(tx, bank, old.session.history.length);
+    }
+  }
+
+  // Whatever is left in prevById was deleted from the library.
+  for (const id of prevById.keys()) deleteBankRecords(tx, id);
+  if (prev?.activeBankId !== next.activeBankId) tx.objectStore("meta").put(next.activeBankId, "activeBankId");
+  await transactionDone(tx);
+}
+
+function deleteBankRecords(tx: IDBTransaction, bankId: string) {
+  tx.objectStore("banks").delete(bankId);
+  tx.objectStore("configs").delete(bankId);
+  tx.objectStore("progress").delete(bankId);
+  tx.objectStore("history").delete(IDBKeyRange.bound([bankId, 0], [bankId, Infinity]));
+}
+
+export async function saveRecoveryCopy(record: RecoveryRecord): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction("recovery", "readwrite");
+  tx.objectStore("recovery").add(record);
+  await transactionDone(tx);
+}
+
+export async function listRecoveryCopies(): Promise<RecoveryRecord[]> {
+  const db = await openDb();
+  const tx = db.transaction("recovery", "readonly");
+  return requestResult(tx.objectStore("recovery").getAll() as IDBRequest<RecoveryRecord[]>);
+}
+
+export async function deleteRecoveryCopy(id: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction("recovery", "readwrite");
+  tx.objectStore("recovery").delete(id);
+  await transactionDone(tx);
+}
+
+// Recovery copies survive this on purpose; they are removed one by one from Settings.
+export async function clearDb(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["banks", "configs", "progress", "history", "meta"], "readwrite");
+  for (const name of ["banks", "configs", "progress", "history", "meta"]) tx.objectStore(name).clear();
+  await transactionDone(tx);
+}
+
+export function isQuotaError(e: unknown): boolean {
+  return e instanceof DOMException && (e.name === "QuotaExceededError" || e.name === "NS_ERROR_DOM_QUOTA_REACHED");
+}
+
+export function describeStorageError(e: unknown): string {
+  if (isQuotaError(e)) {
+    return "Browser storage is full, so recent changes were not saved. Delete unused banks or large images and try again.";
+  }
+  const detail = e instanceof Error ? e.message : String(e);
+  return `Could not save to browser storage: ${detail}`;
+}
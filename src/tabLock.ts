@@ -0,0 +1,48 @@
+// Only one tab at a time may edit the library. Two tabs saving the same bank would each append attempts at the
+// same history positions and overwrite one another, so other tabs wait behind a Web Lock and show a banner.
+// A waiting tab can ask the active one to let go; the active tab finishes its writes before releasing.
+
+const LOCK_NAME = "quizzer-library";
+const CHANNEL_NAME = "quizzer-tabs";
+const RELEASE_REQUEST = "release";
+
+export type TabLock = { release: () => void };
+
+// Resolves once this tab holds the lock, or with null when `wait` is false and another tab has it.
+// Browsers without Web Locks get a lock straight away, as before there was one.
+export function requestTabLock(wait: boolean): Promise<TabLock | null> {
+  if (typeof navigator === "undefined" || !navigator.locks) return Promise.resolve({ release: () => {} });
+
+  return new Promise((resolve, reject) => {
+    navigator.locks
+      .request(LOCK_NAME, { ifAvailable: !wait }, (lock) => {
+        if (!lock) {
+          resolve(null);
+          return;
+        }
+        // The lock is held for as long as this promise is pending.
+        return new Promise<void>((release) => resolve({ release: () => release() }));
+      })
+      .catch(reject);
+  });
+}
+
+function openChannel(): BroadcastChannel | null {
+  return typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(CHANNEL_NAME);
+}
+
+export function askActiveTabToRelease() {
+  const channel = openChannel();
+  channel?.postMessage(RELEASE_REQUEST);
+  channel?.close();
+}
+
+// Calls `handler` whenever another tab asks for the lock. Returns an unsubscribe function.
+export function onReleaseRequested(handler: () => void): () => void {
+  const channel = openChannel();
+  if (!channel) return () => {};
+  channel.onmessage = (e) => {
+    if (e.data === RELEASE_REQUEST) handler();
+  };
+  return () => channel.close();
+}
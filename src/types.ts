@@ -0,0 +1,202 @@
+// Shapes of a question bank (AppConfig) and of the learner state persisted alongside it.
+
+import type { LintRuleId } from "./bankLint";
+
+export type SlideReference = {
+  slideNumber: number;
+  slideTitle?: string;
+  section?: string;
+  fileName?: string;
+};
+
+// Variables are drawn in declaration order, so a formula may use any variable declared above it.
+export type TemplateVariable =
+  | { min: number; max: number; step?: number } // random value on the step grid (default step 1)
+  | { choices: number[] } // random pick
+  | { formula: string }; // computed, e.g. "round(weight * 0.1, 1)"
+
+// Any string in a templated question may embed [[expr]] or [[expr|decimals]]; numeric questions may compute their answer.
+export type QuestionTemplate = {
+  variables: Record<string, TemplateVariable>;
+  answer?: string;
+};
+
+export type QuestionBase = {
+  id: string;
+  prompt: string;
+  explanation?: string;
+  tags?: string[];
+  slideRef?: SlideReference;
+  template?: QuestionTemplate;
+  caseId?: string; // groups the question under AppConfig.cases[].id
+  image?: string; // URL, data URL, or "asset:<name>" from AppConfig.assets
+  imageAlt?: string;
+  lintIgnore?: string[]; // content-lint rule ids that should not be reported for this question
+};
+
+export type McqOption = {
+  id: string;
+  text: string;
+  rationale?: string; // why this option is right or wrong, shown once it has been chosen
+  image?: string;
+  imageAlt?: string;
+};
+
+export type McqQuestion = QuestionBase & {
+  type: "mcq";
+  options: McqOption[];
+  answerId: string;
+};
+
+export type MultiQuestion = QuestionBase & {
+  type: "multi";
+  options: McqOption[];
+  answerIds: string[];
+  // "all-or-nothing" (default) only credits an exact selection; "partial" gives +1 per correct tick, -1 per wrong tick.
+  scoring?: "all-or-nothing" | "partial";
+};
+
+export type ClozeMatching = {
+  caseSensitive?: boolean; // default false
+  collapseWhitespace?: boolean; // default true: trims and treats runs of whitespace as one space
+  ignoreAccents?: boolean; // default true: "glucose" accepts "glucosé"
+  maxTypos?: number; // default 0: edits (insert, delete, substitute, swap) allowed on answers of 4+ characters
+};
+
+export type ClozeBlank = {
+  id: string;
+  answers: string[];
+  matching?: ClozeMatching;
+};
+
+// The prompt marks each blank with {{blankId}}; per-blank matching overrides the question-level defaults.
+export type ClozeQuestion = QuestionBase & {
+  type: "cloze";
+  blanks: ClozeBlank[];
+  matching?: ClozeMatching;
+};
+
+// items are listed in the correct sequence; learners see them shuffled.
+export type OrderQuestion = QuestionBase & {
+  type: "order";
+  items: string[];
+  // "exact" (default) only credits the full sequence; "partial" credits the longest run of items kept in correct relative order.
+  scoring?: "exact" | "partial";
+};
+
+export type NumericTolerance = { kind: "absolute" | "relative"; value: number };
+
+export type NumericQuestion = QuestionBase & {
+  type: "numeric";
+  answer: number;
+  tolerance?: NumericTolerance; // absolute is in `unit`; relative is a fraction of the answer (0.05 = ±5%). Default: exact.
+  unit?: string; // expected unit; learners may answer in any convertible unit (mg ↔ g, mL ↔ L)
+  requireUnit?: boolean; // default false: a bare number is read in `unit`
+  precision?: number; // decimal places the learner should round to, shown under the prompt
+};
+
+// Coordinates are percentages of the image's width and height, so regions survive any display size.
+export type HotspotRegion = {
+  id: string;
+  label?: string;
+  points: Array<[number, number]>;
+};
+
+// A click anywhere inside one of the regions is correct.
+export type HotspotQuestion = QuestionBase & {
+  type: "hotspot";
+  image: string;
+  regions: HotspotRegion[];
+};
+
+export type MatchPair = { left: string; right: string; leftImage?: string; rightImage?: string };
+
+// Several pairs may share a right item (many-to-one, e.g. drug → class).
+export type MatchQuestion = QuestionBase & {
+  type: "match";
+  pairs: MatchPair[];
+  distractors?: string[]; // extra right items that belong to no left item
+};
+
+export type Question = McqQuestion | MultiQuestion | ClozeQuestion | OrderQuestion | NumericQuestion | HotspotQuestion | MatchQuestion;
+
+// A clinical vignette shared by several questions. Its children are the questions whose caseId matches,
+// asked in the order they appear in AppConfig.questions.
+export type CaseStudy = {
+  id: string;
+  title?: string;
+  stem: string;
+  image?: string; // URL or data URL
+  imageAlt?: string;
+};
+
+export type AppConfig = {
+  $schema?: string; // for editors; see configSchema.ts
+  title: string;
+  instructions?: string;
+  cases?: CaseStudy[];
+  questions: Question[];
+  // Images packaged with the bank, keyed by name and referenced as "asset:<name>". Values are data URLs,
+  // so they are stored with the bank and work offline.
+  assets?: Record<string, string>;
+  lint?: { disabled?: string[] }; // content-lint rules switched off for the whole bank
+};
+
+export type Attempt = {
+  questionId: string;
+  type: Question["type"];
+  isCorrect: boolean;
+  chosenAnswerId?: string;
+  chosenAnswerIds?: string[];
+  chosenPairs?: Array<{ left: string; right: string }>;
+  typedAnswers?: Record<string, string>;
+  blankResults?: Record<string, boolean>;
+  chosenOrder?: string[];
+  rawInput?: string;
+  numericValue?: number; // rawInput converted to the question's unit; absent when it could not be read
+  clickPoint?: { x: number; y: number }; // percentages, like HotspotRegion points
+  seed?: number; // template seed of the instance that was answered
+  // Fraction of credit earned (0..1) for question types that support partial credit.
+  score?: number;
+  timestamp: number;
+  sessionStartedAt: number; // progress.startedAt of the session the attempt belongs to
+  retry: number; // retryVersionById[questionId] when answered
+  timeSpentMs?: number; // since the question was shown, or since the previous attempt at it
+};
+
+export type SessionState = {
+  schemaVersion: number; // see migrations.ts
+  config: AppConfig;
+  settings: {
+    shuffle: boolean;
+    showExplanations: boolean;
+    autoAdvance: boolean;
+    // Content-lint switches made in the Settings tab. Kept out of config so toggling them never rewrites the bank.
+    lintDisabled?: LintRuleId[];
+    lintIgnored?: Record<string, LintRuleId[]>; // question id -> rule ids
+  };
+  progress: {
+    currentIndex: number;
+    order: string[];
+    retryVersionById: Record<string, number>;
+    startedAt: number;
+    completedAt?: number;
+  };
+  // Every attempt ever made in this bank, oldest first. Never edited or trimmed; the current session's answers
+  // are derived from it.
+  history: Attempt[];
+};
+
+// Each bank keeps its own config, settings and progress, so switching banks never loses work.
+export type BankEntry = {
+  id: string;
+  name: string;
+  createdAt: number;
+  lastStudiedAt?: number;
+  session: SessionState;
+};
+
+export type Library = {
+  activeBankId: string;
+  banks: BankEntry[];
+};